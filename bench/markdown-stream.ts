@@ -0,0 +1,45 @@
+// Replays a recorded stream of `message.part.updated` events through the markdown renderer, once re-parsing the
+// whole text on every event the way `Markdown` used to, and once through the block cache it uses now.
+//
+//   bun bench/markdown-stream.ts [fixture.json]
+import { readFileSync } from "node:fs"
+import { Marked } from "marked"
+import markedShiki from "marked-shiki"
+import { createHighlighter } from "shiki"
+import type { EventMessagePartUpdated } from "@opencode-ai/sdk"
+import { blocks, renderBlock } from "../src/utils/markdown.ts"
+
+const fixture = process.argv[2] ?? new URL("./fixtures/stream.json", import.meta.url).pathname
+const events: EventMessagePartUpdated[] = JSON.parse(readFileSync(fixture, "utf8"))
+const texts = events.map((event) => event.properties.part).flatMap((part) => (part.type === "text" ? [part.text] : []))
+
+const highlighter = await createHighlighter({ themes: ["github-dark"], langs: ["ts", "rust", "bash"] })
+let highlighted = 0
+const marked = new Marked(
+  markedShiki({
+    highlight(code, lang) {
+      highlighted++
+      const loaded = highlighter.getLoadedLanguages().includes(lang)
+      return highlighter.codeToHtml(code, { lang: loaded ? lang : "text", theme: "github-dark" })
+    },
+  }),
+)
+
+async function measure(name: string, render: (text: string) => Promise<unknown>) {
+  highlighted = 0
+  const times: number[] = []
+  for (const text of texts) {
+    const start = performance.now()
+    await render(text)
+    times.push(performance.now() - start)
+  }
+  const total = times.reduce((a, b) => a + b, 0)
+  console.log(
+    `${name.padEnd(12)} total ${total.toFixed(1)}ms  avg ${(total / times.length).toFixed(2)}ms  ` +
+      `max ${Math.max(...times).toFixed(2)}ms  highlighted ${highlighted} code blocks`,
+  )
+}
+
+console.log(`${texts.length} events, ${texts[texts.length - 1]?.length ?? 0} characters`)
+await measure("full", (text) => Promise.resolve(marked.parse(text)))
+await measure("incremental", (text) => Promise.all(blocks(marked, text).map((block) => renderBlock(marked, block))))
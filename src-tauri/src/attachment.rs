@@ -0,0 +1,61 @@
+// Files attached to a prompt in the desktop app. They are picked in a native dialog shown from here, and the webview
+// can only read the files that were picked, each of them once.
+use std::collections::HashSet;
+use std::fs;
+use std::path::PathBuf;
+use std::sync::Mutex;
+
+use serde::Serialize;
+use tauri::ipc::Response;
+use tauri::{AppHandle, State};
+use tauri_plugin_dialog::DialogExt;
+
+#[derive(Default)]
+pub struct PickedFiles(Mutex<HashSet<PathBuf>>);
+
+#[derive(Serialize)]
+pub struct PickedFile {
+    path: String,
+    name: String,
+    size: u64,
+}
+
+// async so the blocking dialog doesn't run on the main thread, an empty list when the dialog was cancelled
+#[tauri::command]
+pub async fn attachment_pick(
+    app: AppHandle,
+    state: State<'_, PickedFiles>,
+) -> Result<Vec<PickedFile>, String> {
+    let Some(picked) = app.dialog().file().blocking_pick_files() else {
+        return Ok(Vec::new());
+    };
+    let mut files = Vec::new();
+    for path in picked {
+        let path = path.into_path().map_err(|e| format!("Could not open the picked file: {e}"))?;
+        let size = fs::metadata(&path)
+            .map_err(|e| format!("Could not open {}: {e}", path.display()))?
+            .len();
+        files.push(PickedFile {
+            path: path.display().to_string(),
+            name: path
+                .file_name()
+                .map(|name| name.to_string_lossy().into_owned())
+                .unwrap_or_default(),
+            size,
+        });
+        state.0.lock().unwrap_or_else(|e| e.into_inner()).insert(path);
+    }
+    Ok(files)
+}
+
+// The contents as raw bytes, they reach the webview as an ArrayBuffer.
+#[tauri::command]
+pub fn attachment_read(state: State<'_, PickedFiles>, path: String) -> Result<Response, String> {
+    let picked = PathBuf::from(&path);
+    if !state.0.lock().unwrap_or_else(|e| e.into_inner()).remove(&picked) {
+        return Err(format!("{path} wasn't picked to be attached"));
+    }
+    fs::read(&picked)
+        .map(Response::new)
+        .map_err(|e| format!("Could not read {path}: {e}"))
+}
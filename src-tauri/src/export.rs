@@ -0,0 +1,29 @@
+// Saves an exported session. The save dialog is shown from here, so the only file that can be written is the one the
+// user picked in it.
+use std::fs;
+
+use tauri::AppHandle;
+use tauri_plugin_dialog::DialogExt;
+
+// async so the blocking dialog doesn't run on the main thread, returns None when the dialog was cancelled
+#[tauri::command]
+pub async fn export_save(
+    app: AppHandle,
+    filename: String,
+    label: String,
+    extension: String,
+    contents: String,
+) -> Result<Option<String>, String> {
+    let Some(picked) = app
+        .dialog()
+        .file()
+        .set_file_name(&filename)
+        .add_filter(&label, &[extension.as_str()])
+        .blocking_save_file()
+    else {
+        return Ok(None);
+    };
+    let path = picked.into_path().map_err(|e| format!("Could not save {filename}: {e}"))?;
+    fs::write(&path, contents).map_err(|e| format!("Could not write {}: {e}", path.display()))?;
+    Ok(Some(path.display().to_string()))
+}
@@ -0,0 +1,56 @@
+// Writes the files the editor saves, limited to the project directory the app's own server runs in.
+use std::fs;
+use std::path::{Component, Path, PathBuf};
+
+use tauri::State;
+
+use crate::server::ServerState;
+
+// The backend decides which directory may be changed, the webview only names the project it has open, and that has
+// to be the same one.
+pub fn project_root(state: &ServerState, directory: &str) -> Result<PathBuf, String> {
+    let managed = state
+        .directory()
+        .ok_or_else(|| "Files can only be changed in the project the app started its server in".to_string())?;
+    let root = fs::canonicalize(&managed).map_err(|e| format!("Could not open {managed}: {e}"))?;
+    if fs::canonicalize(directory).ok().as_deref() != Some(root.as_path()) {
+        return Err(format!("{directory} is not the project the app's server runs in"));
+    }
+    Ok(root)
+}
+
+// Resolves `path` relative to `root`, refusing anything that would end up outside of it.
+pub fn scoped(root: &Path, path: &str) -> Result<PathBuf, String> {
+    let relative = Path::new(path);
+    if relative
+        .components()
+        .any(|c| !matches!(c, Component::Normal(_) | Component::CurDir))
+    {
+        return Err(format!("{path} is outside of the project"));
+    }
+    let target = root.join(relative);
+    // a symlink can still point somewhere else, so check where the file really lives
+    let resolved = if target.exists() {
+        fs::canonicalize(&target)
+    } else {
+        let parent = target.parent().unwrap_or(root);
+        fs::canonicalize(parent).map(|p| p.join(target.file_name().unwrap_or_default()))
+    }
+    .map_err(|e| format!("Could not open {path}: {e}"))?;
+    if !resolved.starts_with(root) {
+        return Err(format!("{path} is outside of the project"));
+    }
+    Ok(resolved)
+}
+
+#[tauri::command]
+pub fn file_write(
+    state: State<'_, ServerState>,
+    directory: String,
+    path: String,
+    contents: String,
+) -> Result<(), String> {
+    let root = project_root(&state, &directory)?;
+    let target = scoped(&root, &path)?;
+    fs::write(&target, contents).map_err(|e| format!("Could not write {path}: {e}"))
+}
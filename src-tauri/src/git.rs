@@ -0,0 +1,242 @@
+// Git operations on the project directory. They run the git binary directly, so they work on any local repository
+// without going through the opencode server. Like saving files, they only run in the project the app's server runs in.
+use std::io::Write;
+use std::path::Path;
+use std::process::{Command, Stdio};
+
+use serde::Serialize;
+use tauri::State;
+
+use crate::fs::{project_root, scoped};
+use crate::server::ServerState;
+
+#[derive(Serialize)]
+pub struct GitFile {
+    path: String,
+    // porcelain status letters, "." when that side has no change and "?" for untracked files
+    staged: String,
+    unstaged: String,
+}
+
+#[derive(Serialize)]
+pub struct GitStatus {
+    // None on a detached HEAD
+    branch: Option<String>,
+    upstream: Option<String>,
+    ahead: u32,
+    behind: u32,
+    files: Vec<GitFile>,
+}
+
+pub fn git(directory: &Path, args: &[&str], input: Option<&str>) -> Result<String, String> {
+    let mut child = Command::new("git")
+        .args(args)
+        .current_dir(directory)
+        .stdin(if input.is_some() { Stdio::piped() } else { Stdio::null() })
+        .stdout(Stdio::piped())
+        .stderr(Stdio::piped())
+        .spawn()
+        .map_err(|e| format!("Could not run git: {e}"))?;
+    if let Some(input) = input {
+        child
+            .stdin
+            .take()
+            .expect("stdin is piped")
+            .write_all(input.as_bytes())
+            .map_err(|e| format!("Could not run git: {e}"))?;
+    }
+    let output = child
+        .wait_with_output()
+        .map_err(|e| format!("Could not run git: {e}"))?;
+    if !output.status.success() {
+        return Err(String::from_utf8_lossy(&output.stderr).trim().to_string());
+    }
+    Ok(String::from_utf8_lossy(&output.stdout).into_owned())
+}
+
+// Applies a patch to the working tree, or to the index with `cached`.
+#[tauri::command]
+pub fn git_apply(
+    state: State<'_, ServerState>,
+    directory: String,
+    patch: String,
+    reverse: bool,
+    cached: bool,
+) -> Result<(), String> {
+    let root = project_root(&state, &directory)?;
+    let mut args = vec!["apply", "--whitespace=nowarn"];
+    if reverse {
+        args.push("--reverse");
+    }
+    if cached {
+        args.push("--cached");
+    }
+    args.push("-");
+    git(&root, &args, Some(&patch)).map(|_| ())
+}
+
+// Throws away every change to a file, staged or not. A file that isn't in HEAD is deleted.
+#[tauri::command]
+pub fn git_discard(
+    state: State<'_, ServerState>,
+    directory: String,
+    path: String,
+) -> Result<(), String> {
+    let root = project_root(&state, &directory)?;
+    let target = scoped(&root, &path)?;
+    let spec = format!("HEAD:./{path}");
+    if git(&root, &["cat-file", "-e", &spec], None).is_ok() {
+        return git(&root, &["checkout", "HEAD", "--", &path], None).map(|_| ());
+    }
+    git(&root, &["rm", "--cached", "--quiet", "--ignore-unmatch", "--", &path], None)?;
+    if target.exists() {
+        std::fs::remove_file(&target).map_err(|e| format!("Could not delete {path}: {e}"))?;
+    }
+    Ok(())
+}
+
+#[tauri::command]
+pub fn git_status(state: State<'_, ServerState>, directory: String) -> Result<GitStatus, String> {
+    let root = project_root(&state, &directory)?;
+    let output = git(
+        &root,
+        &["status", "--porcelain=v2", "--branch", "--untracked-files=all", "-z"],
+        None,
+    )?;
+    let mut status = GitStatus {
+        branch: None,
+        upstream: None,
+        ahead: 0,
+        behind: 0,
+        files: Vec::new(),
+    };
+    let mut entries = output.split('\0').filter(|entry| !entry.is_empty());
+    while let Some(entry) = entries.next() {
+        let fields: Vec<&str> = entry.split(' ').collect();
+        match fields[0] {
+            "#" => match fields.get(1).copied() {
+                Some("branch.head") if fields.get(2) != Some(&"(detached)") => {
+                    status.branch = fields.get(2).map(|s| s.to_string())
+                }
+                Some("branch.upstream") => status.upstream = fields.get(2).map(|s| s.to_string()),
+                Some("branch.ab") => {
+                    let count = |i: usize| fields.get(i).and_then(|s| s[1..].parse().ok()).unwrap_or(0);
+                    status.ahead = count(2);
+                    status.behind = count(3);
+                }
+                _ => {}
+            },
+            // the path is the last field and may contain spaces, renames are followed by their original path
+            "1" | "2" | "u" => {
+                let skip = match fields[0] {
+                    "1" => 8,
+                    "2" => 9,
+                    _ => 10,
+                };
+                let xy = fields[1];
+                status.files.push(GitFile {
+                    path: entry.splitn(skip + 1, ' ').last().unwrap_or_default().to_string(),
+                    staged: xy[..1].to_string(),
+                    unstaged: xy[1..].to_string(),
+                });
+                if fields[0] == "2" {
+                    entries.next();
+                }
+            }
+            "?" => status.files.push(GitFile {
+                path: entry[2..].to_string(),
+                staged: ".".to_string(),
+                unstaged: "?".to_string(),
+            }),
+            _ => {}
+        }
+    }
+    Ok(status)
+}
+
+// The diff of a file between the index and the working tree, or between HEAD and the index with `cached`.
+#[tauri::command]
+pub fn git_diff(
+    state: State<'_, ServerState>,
+    directory: String,
+    path: String,
+    cached: bool,
+) -> Result<String, String> {
+    let root = project_root(&state, &directory)?;
+    let mut args = vec!["diff", "--no-color", "--no-ext-diff"];
+    if cached {
+        args.push("--cached");
+    }
+    args.extend(["--", path.as_str()]);
+    git(&root, &args, None)
+}
+
+// The committed version of a file, for files that are gone from the working tree.
+#[tauri::command]
+pub fn git_show(
+    state: State<'_, ServerState>,
+    directory: String,
+    path: String,
+) -> Result<String, String> {
+    let root = project_root(&state, &directory)?;
+    let spec = format!("HEAD:./{path}");
+    git(&root, &["show", &spec], None)
+}
+
+#[tauri::command]
+pub fn git_stage(
+    state: State<'_, ServerState>,
+    directory: String,
+    paths: Vec<String>,
+) -> Result<(), String> {
+    let root = project_root(&state, &directory)?;
+    let mut args = vec!["add", "--all", "--"];
+    args.extend(paths.iter().map(String::as_str));
+    git(&root, &args, None).map(|_| ())
+}
+
+#[tauri::command]
+pub fn git_unstage(
+    state: State<'_, ServerState>,
+    directory: String,
+    paths: Vec<String>,
+) -> Result<(), String> {
+    let root = project_root(&state, &directory)?;
+    let mut args = vec!["restore", "--staged", "--"];
+    args.extend(paths.iter().map(String::as_str));
+    git(&root, &args, None).map(|_| ())
+}
+
+#[tauri::command]
+pub fn git_commit(
+    state: State<'_, ServerState>,
+    directory: String,
+    message: String,
+) -> Result<(), String> {
+    let root = project_root(&state, &directory)?;
+    git(&root, &["commit", "--quiet", "--file", "-"], Some(&message)).map(|_| ())
+}
+
+#[tauri::command]
+pub fn git_branches(
+    state: State<'_, ServerState>,
+    directory: String,
+) -> Result<Vec<String>, String> {
+    let root = project_root(&state, &directory)?;
+    let output = git(
+        &root,
+        &["for-each-ref", "--sort=-committerdate", "--format=%(refname:short)", "refs/heads"],
+        None,
+    )?;
+    Ok(output.lines().map(str::to_string).collect())
+}
+
+#[tauri::command]
+pub fn git_switch(
+    state: State<'_, ServerState>,
+    directory: String,
+    branch: String,
+) -> Result<(), String> {
+    let root = project_root(&state, &directory)?;
+    git(&root, &["switch", "--quiet", &branch], None).map(|_| ())
+}
@@ -1,15 +1,43 @@
-// Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
-#[tauri::command]
-fn greet(name: &str) -> String {
-    format!("Hello, {}! You've been greeted from Rust!", name)
-}
+mod attachment;
+mod export;
+mod fs;
+mod git;
+mod server;
+
+use tauri::Manager;
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_dialog::init())
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![greet])
-        .run(tauri::generate_context!())
-        .expect("error while running tauri application");
+        .manage(attachment::PickedFiles::default())
+        .manage(server::ServerState::default())
+        .invoke_handler(tauri::generate_handler![
+            attachment::attachment_pick,
+            attachment::attachment_read,
+            export::export_save,
+            fs::file_write,
+            git::git_apply,
+            git::git_branches,
+            git::git_commit,
+            git::git_diff,
+            git::git_discard,
+            git::git_show,
+            git::git_stage,
+            git::git_status,
+            git::git_switch,
+            git::git_unstage,
+            server::server_start,
+            server::server_stop,
+            server::server_status
+        ])
+        .build(tauri::generate_context!())
+        .expect("error while building tauri application")
+        .run(|app, event| {
+            // don't leave the opencode server running once the window is gone
+            if let tauri::RunEvent::Exit = event {
+                app.state::<server::ServerState>().shutdown();
+            }
+        });
 }
@@ -0,0 +1,229 @@
+// Supervises a local `opencode serve` process rooted at a project directory.
+//
+// The frontend starts it through `server_start`, gets back the port it was bound
+// to, and follows its output and restarts through the `server://*` events.
+use std::io::{BufRead, BufReader, Read};
+use std::net::TcpListener;
+use std::process::{Child, Command, Stdio};
+use std::sync::{Arc, Mutex, MutexGuard};
+use std::thread;
+use std::time::{Duration, Instant};
+
+use serde::Serialize;
+use tauri::{AppHandle, Emitter, State};
+
+const MAX_RESTARTS: u32 = 5;
+// a process that stayed up this long is considered healthy again
+const STABLE_AFTER: Duration = Duration::from_secs(60);
+
+#[derive(Clone, Serialize)]
+pub struct ServerInfo {
+    pub directory: String,
+    pub port: u16,
+}
+
+#[derive(Clone, Serialize)]
+struct LogLine {
+    stream: &'static str,
+    line: String,
+}
+
+#[derive(Clone, Serialize)]
+struct ExitInfo {
+    code: Option<i32>,
+    restarting: bool,
+}
+
+struct Process {
+    info: ServerInfo,
+    child: Child,
+    started: Instant,
+}
+
+#[derive(Default)]
+struct Inner {
+    process: Option<Process>,
+    generation: u64,
+}
+
+#[derive(Default)]
+pub struct ServerState {
+    inner: Arc<Mutex<Inner>>,
+}
+
+impl ServerState {
+    fn lock(&self) -> MutexGuard<'_, Inner> {
+        self.inner.lock().unwrap_or_else(|e| e.into_inner())
+    }
+
+    pub fn shutdown(&self) {
+        stop(&mut self.lock());
+    }
+
+    // the project the managed server runs in, None while no server is managed by the app
+    pub fn directory(&self) -> Option<String> {
+        self.lock().process.as_ref().map(|process| process.info.directory.clone())
+    }
+}
+
+fn free_port() -> Result<u16, String> {
+    TcpListener::bind("127.0.0.1:0")
+        .and_then(|listener| listener.local_addr())
+        .map(|addr| addr.port())
+        .map_err(|e| format!("no free port available: {e}"))
+}
+
+fn port_available(port: u16) -> bool {
+    TcpListener::bind(("127.0.0.1", port)).is_ok()
+}
+
+fn forward(app: &AppHandle, stream: &'static str, source: impl Read + Send + 'static) {
+    let app = app.clone();
+    thread::spawn(move || {
+        for line in BufReader::new(source).lines() {
+            let Ok(line) = line else { break };
+            let _ = app.emit("server://log", LogLine { stream, line });
+        }
+    });
+}
+
+fn spawn(app: &AppHandle, directory: &str, port: u16) -> Result<Child, String> {
+    let mut child = Command::new("opencode")
+        .args([
+            "serve",
+            "--hostname",
+            "127.0.0.1",
+            "--port",
+            &port.to_string(),
+        ])
+        .current_dir(directory)
+        .stdin(Stdio::null())
+        .stdout(Stdio::piped())
+        .stderr(Stdio::piped())
+        .spawn()
+        .map_err(|e| format!("failed to start opencode serve: {e}"))?;
+    if let Some(stdout) = child.stdout.take() {
+        forward(app, "stdout", stdout);
+    }
+    if let Some(stderr) = child.stderr.take() {
+        forward(app, "stderr", stderr);
+    }
+    Ok(child)
+}
+
+fn stop(inner: &mut Inner) {
+    // bumping the generation tells the supervisor thread of the old process to exit
+    inner.generation += 1;
+    if let Some(mut process) = inner.process.take() {
+        let _ = process.child.kill();
+        let _ = process.child.wait();
+    }
+}
+
+fn supervise(app: AppHandle, shared: Arc<Mutex<Inner>>, generation: u64) {
+    thread::spawn(move || {
+        let lock = || shared.lock().unwrap_or_else(|e| e.into_inner());
+        let mut restarts = 0;
+        loop {
+            thread::sleep(Duration::from_millis(500));
+            let mut inner = lock();
+            if inner.generation != generation {
+                return;
+            }
+            let Some(process) = inner.process.as_mut() else {
+                return;
+            };
+            let status = match process.child.try_wait() {
+                Ok(Some(status)) => status,
+                Ok(None) => continue,
+                Err(_) => return,
+            };
+            if process.started.elapsed() > STABLE_AFTER {
+                restarts = 0;
+            }
+            let restarting = restarts < MAX_RESTARTS;
+            let _ = app.emit(
+                "server://exit",
+                ExitInfo {
+                    code: status.code(),
+                    restarting,
+                },
+            );
+            if !restarting {
+                inner.process = None;
+                return;
+            }
+            restarts += 1;
+            drop(inner);
+
+            thread::sleep(Duration::from_millis(500 << restarts));
+
+            let mut inner = lock();
+            if inner.generation != generation {
+                return;
+            }
+            let Some(process) = inner.process.as_mut() else {
+                return;
+            };
+            let port = match port_available(process.info.port) {
+                true => Ok(process.info.port),
+                false => free_port(),
+            };
+            match port.and_then(|port| {
+                spawn(&app, &process.info.directory, port).map(|child| (port, child))
+            }) {
+                Ok((port, child)) => {
+                    process.child = child;
+                    process.started = Instant::now();
+                    process.info.port = port;
+                    let _ = app.emit("server://started", process.info.clone());
+                }
+                Err(e) => {
+                    inner.process = None;
+                    let _ = app.emit("server://error", e);
+                    return;
+                }
+            }
+        }
+    });
+}
+
+#[tauri::command]
+pub fn server_start(
+    app: AppHandle,
+    state: State<'_, ServerState>,
+    directory: String,
+) -> Result<ServerInfo, String> {
+    let mut inner = state.lock();
+    if let Some(process) = &inner.process {
+        if process.info.directory == directory {
+            return Ok(process.info.clone());
+        }
+    }
+    stop(&mut inner);
+
+    let port = free_port()?;
+    let child = spawn(&app, &directory, port)?;
+    let info = ServerInfo { directory, port };
+    inner.process = Some(Process {
+        info: info.clone(),
+        child,
+        started: Instant::now(),
+    });
+    supervise(app, state.inner.clone(), inner.generation);
+    Ok(info)
+}
+
+#[tauri::command]
+pub fn server_stop(state: State<'_, ServerState>) {
+    stop(&mut state.lock());
+}
+
+#[tauri::command]
+pub fn server_status(state: State<'_, ServerState>) -> Option<ServerInfo> {
+    state
+        .lock()
+        .process
+        .as_ref()
+        .map(|process| process.info.clone())
+}
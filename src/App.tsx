@@ -1,12 +1,17 @@
 /* @refresh reload */
 import { Router, Route } from "@solidjs/router"
-import type { Component } from "solid-js"
+import type { Component, ParentProps } from "solid-js"
 import "@/index.css"
 import Layout from "@/pages/layout"
 import Home from "@/pages"
+import Settings from "@/pages/settings"
+import Usage from "@/pages/usage"
+import ServerStatus from "@/components/server-status"
+import Startup from "@/components/startup"
 import {
   EventProvider,
   SDKProvider,
+  ServerProvider,
   SyncProvider,
   LocalProvider,
   ThemeProvider,
@@ -14,22 +19,30 @@ import {
   MarkedProvider,
 } from "@/context"
 
+const Workspace = (props: ParentProps) => (
+  <SDKProvider fallback={<ServerStatus />}>
+    <EventProvider>
+      <SyncProvider fallback={(step, retry) => <Startup step={step} onRetry={retry} />}>
+        <LocalProvider>{props.children}</LocalProvider>
+      </SyncProvider>
+    </EventProvider>
+  </SDKProvider>
+)
+
 const App: Component = () => (
   <div class="h-full bg-background text-text-muted">
     <ThemeProvider defaultTheme="opencode" defaultDarkMode={true}>
       <ShikiProvider>
         <MarkedProvider>
-          <SDKProvider>
-            <EventProvider>
-              <SyncProvider>
-                <LocalProvider>
-                  <Router root={Layout}>
-                    <Route path="/" component={Home} />
-                  </Router>
-                </LocalProvider>
-              </SyncProvider>
-            </EventProvider>
-          </SDKProvider>
+          <ServerProvider>
+            <Router root={Layout}>
+              <Route path="/settings" component={Settings} />
+              <Route path="/" component={Workspace}>
+                <Route path="/" component={Home} />
+                <Route path="/usage" component={Usage} />
+              </Route>
+            </Router>
+          </ServerProvider>
         </MarkedProvider>
       </ShikiProvider>
     </ThemeProvider>
@@ -0,0 +1,111 @@
+import { Show } from "solid-js"
+import { invoke } from "@tauri-apps/api/core"
+import { Icon, IconButton } from "@/ui"
+import { getFileExtension } from "@/utils"
+
+export type Attachment = {
+  id: string
+  filename: string
+  mime: string
+  // data url, so it also works when the server runs on another machine
+  url: string
+}
+
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024
+
+// images and pdfs go to the model as files, everything else is inlined as text by the server
+export const isMedia = (mime: string) => mime.startsWith("image/") || mime === "application/pdf"
+
+// for files the browser has no type for, or a wrong one
+const EXTENSION_MIME: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+}
+
+// the start of a file is enough to tell text from binary
+const SNIFF_SIZE = 8192
+
+// anything that isn't an image or a pdf is sent as text, readAttachment refuses it when it turns out not to be
+export const attachmentMime = (file: File) =>
+  isMedia(file.type) ? file.type : (EXTENSION_MIME[getFileExtension(file.name).toLowerCase()] ?? "text/plain")
+
+async function isText(file: File) {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_SIZE).arrayBuffer())
+  if (bytes.includes(0)) return false
+  try {
+    // streaming, the sample may end in the middle of a character
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function readAttachment(file: File): Promise<Attachment> {
+  const mime = attachmentMime(file)
+  if (!isMedia(mime) && !(await isText(file)))
+    throw new Error(`${file.name} is a binary file, only text files, images and PDFs can be attached`)
+  const result = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+  return {
+    id: crypto.randomUUID(),
+    filename: file.name || `pasted.${mime.split("/")[1] ?? "bin"}`,
+    mime,
+    // the browser's guess can be off (.ts is video/mp2t), so the url carries the mime we send
+    url: result.replace(/^data:[^;,]*/, `data:${mime}`),
+  }
+}
+
+// The desktop app picks files in a native dialog and reads them through the backend. Files over the size limit are
+// left unread and only reported by name.
+export async function pickAttachments() {
+  const picked = await invoke<{ path: string; name: string; size: number }[]>("attachment_pick")
+  const files: File[] = []
+  const tooLarge: string[] = []
+  for (const file of picked) {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      tooLarge.push(file.name)
+      continue
+    }
+    const contents = await invoke<ArrayBuffer>("attachment_read", { path: file.path })
+    files.push(new File([contents], file.name))
+  }
+  return { files, tooLarge }
+}
+
+export function AttachmentTag(props: { attachment: Attachment; onClose: () => void }) {
+  return (
+    <div
+      class="flex items-center bg-background group/tag
+             border border-border-subtle/60 border-dashed
+             rounded-md text-xs text-text-muted"
+    >
+      <IconButton class="text-text-muted" size="xs" variant="ghost" onClick={props.onClose}>
+        <Icon
+          name={props.attachment.mime === "application/pdf" ? "pdf" : "file"}
+          class="group-hover/tag:hidden"
+          size={12}
+        />
+        <Icon name="close" class="hidden group-hover/tag:block" size={12} />
+      </IconButton>
+      <Show
+        when={props.attachment.mime.startsWith("image/")}
+        fallback={<span class="pr-1">{props.attachment.filename}</span>}
+      >
+        <div class="pr-1 flex gap-1 items-center">
+          <img src={props.attachment.url} alt={props.attachment.filename} class="size-5 rounded-sm object-cover" />
+          <span>{props.attachment.filename}</span>
+        </div>
+      </Show>
+    </div>
+  )
+}
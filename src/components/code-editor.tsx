@@ -0,0 +1,201 @@
+import { bundledLanguages, type BundledLanguage } from "shiki"
+import { createEffect, createMemo, createResource, createSignal, For, on, onMount, Show } from "solid-js"
+import { useLocal, useShiki } from "@/context"
+import { Button, Icon, IconButton, Tooltip } from "@/ui"
+import { getFileExtension } from "@/utils"
+
+const MOD = typeof navigator === "object" && /(Mac|iPod|iPhone|iPad)/.test(navigator.platform) ? "Meta" : "Control"
+const INDENT = "  "
+
+// the same font metrics on both layers, otherwise the caret drifts away from the highlighted text
+const text = "m-0 p-0 font-mono text-xs tracking-wide leading-5 whitespace-pre [tab-size:2]"
+
+// A transparent textarea on top of the highlighted draft, the textarea does the editing and the highlighted copy
+// underneath is what you see.
+export function CodeEditor(props: { path: string }) {
+  const local = useLocal()
+  const highlighter = useShiki()
+  const [error, setError] = createSignal<string>()
+  const [saving, setSaving] = createSignal(false)
+  let textarea: HTMLTextAreaElement | undefined
+
+  const file = createMemo(() => local.file.node(props.path))
+  const value = createMemo(() => file()?.draft ?? "")
+  const lines = createMemo(() => value().split("\n").length)
+  const lang = createMemo(() => {
+    const ext = getFileExtension(props.path)
+    return ext in bundledLanguages ? ext : "text"
+  })
+
+  const [html] = createResource(
+    () => ({ code: value(), lang: lang() }),
+    async ({ code, lang }) => {
+      if (!highlighter.getLoadedLanguages().includes(lang)) await highlighter.loadLanguage(lang as BundledLanguage)
+      // the trailing space keeps a final empty line as tall as the textarea's
+      return highlighter.codeToHtml(code + " ", { lang, theme: "opencode" }) as string
+    },
+  )
+
+  // undo, redo and reloads replace the text from outside, put the caret where the text changed
+  createEffect(
+    on(value, (value) => {
+      if (!textarea || textarea.value === value) return
+      const previous = textarea.value
+      let start = 0
+      while (start < value.length && value[start] === previous[start]) start++
+      textarea.value = value
+      textarea.setSelectionRange(start, start)
+    }),
+  )
+
+  onMount(() => {
+    if (!textarea) return
+    textarea.value = value()
+    textarea.focus()
+  })
+
+  const save = async () => {
+    if (saving()) return
+    setSaving(true)
+    setError(undefined)
+    await local.file
+      .save(props.path)
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)))
+      .finally(() => setSaving(false))
+  }
+
+  const insert = (text: string) => {
+    if (!textarea) return
+    textarea.setRangeText(text, textarea.selectionStart, textarea.selectionEnd, "end")
+    local.file.change(props.path, textarea.value)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    const key = e.key.toLowerCase()
+    if (e.getModifierState(MOD) && key === "s") {
+      e.preventDefault()
+      save()
+      return
+    }
+    if ((e.getModifierState(MOD) && key === "z" && e.shiftKey) || (e.getModifierState(MOD) && key === "y")) {
+      e.preventDefault()
+      local.file.redo(props.path)
+      return
+    }
+    if (e.getModifierState(MOD) && key === "z") {
+      e.preventDefault()
+      local.file.undo(props.path)
+      return
+    }
+    if (e.key === "Tab" && !e.shiftKey) {
+      e.preventDefault()
+      insert(INDENT)
+      return
+    }
+    if (e.key === "Escape") {
+      textarea?.blur()
+    }
+  }
+
+  // undo from the context menu goes through the same history as the shortcuts
+  const handleBeforeInput = (e: InputEvent) => {
+    if (e.inputType === "historyUndo") {
+      e.preventDefault()
+      local.file.undo(props.path)
+    }
+    if (e.inputType === "historyRedo") {
+      e.preventDefault()
+      local.file.redo(props.path)
+    }
+  }
+
+  return (
+    <div class="h-full flex flex-col">
+      <Show when={file()?.conflict}>
+        <div
+          class="shrink-0 mx-2 mb-1 px-2 py-1.5 flex items-center gap-2 rounded-md bg-warning/10 text-xs text-warning"
+        >
+          <Icon name="warning" size={14} class="shrink-0" />
+          <span class="grow">This file changed on disk while you were editing it.</span>
+          <Button size="sm" variant="ghost" onClick={() => local.file.discard(props.path)}>
+            Reload
+          </Button>
+          <Button size="sm" variant="secondary" onClick={() => local.file.keep(props.path)}>
+            Keep my changes
+          </Button>
+        </div>
+      </Show>
+      <Show when={error()}>
+        <div
+          class="shrink-0 mx-2 mb-1 px-2 py-1.5 flex items-center gap-2 rounded-md bg-error/10 text-xs text-error"
+        >
+          <Icon name="warning" size={14} class="shrink-0" />
+          <span class="grow">{error()}</span>
+          <IconButton size="xs" variant="ghost" onClick={() => setError(undefined)}>
+            <Icon name="close" size={14} />
+          </IconButton>
+        </div>
+      </Show>
+      <div class="shrink-0 px-2 pb-1 flex items-center gap-1">
+        <Tooltip value="Undo" placement="bottom">
+          <IconButton
+            size="xs"
+            variant="ghost"
+            disabled={!local.file.canUndo(props.path)}
+            onClick={() => local.file.undo(props.path)}
+          >
+            <Icon name="undo" size={14} />
+          </IconButton>
+        </Tooltip>
+        <Tooltip value="Redo" placement="bottom">
+          <IconButton
+            size="xs"
+            variant="ghost"
+            disabled={!local.file.canRedo(props.path)}
+            onClick={() => local.file.redo(props.path)}
+          >
+            <Icon name="redo" size={14} />
+          </IconButton>
+        </Tooltip>
+        <span class="ml-1 text-xs text-text-muted">{local.file.dirty(props.path) ? "Unsaved changes" : "Saved"}</span>
+        <Button
+          class="ml-auto"
+          size="sm"
+          variant="primary"
+          disabled={saving() || !local.file.dirty(props.path)}
+          onClick={save}
+        >
+          <Show when={saving()} fallback="Save">
+            <Icon name="loading" size={14} class="animate-spin" />
+          </Show>
+        </Button>
+      </div>
+      <div class="grow min-h-0 overflow-auto flex">
+        <div class="sticky left-0 z-10 shrink-0 w-12 pr-4 pb-40 bg-background-panel text-right select-none">
+          <For each={Array.from({ length: lines() }, (_, i) => i + 1)}>
+            {(line) => <div class={`${text} text-text-muted/60`}>{line}</div>}
+          </For>
+        </div>
+        <div class="relative grow grid pb-40">
+          <div
+            aria-hidden="true"
+            class={`[grid-area:1/1] pointer-events-none [&_pre]:bg-transparent! ${text}`}
+            innerHTML={html.latest}
+          />
+          <textarea
+            ref={textarea}
+            class={`[grid-area:1/1] w-full h-full resize-none overflow-hidden border-0 outline-none bg-transparent
+                    text-transparent caret-text selection:bg-primary/30 ${text}`}
+            spellcheck={false}
+            autocomplete="off"
+            autocapitalize="off"
+            wrap="off"
+            onInput={(e) => local.file.change(props.path, e.currentTarget.value)}
+            onKeyDown={handleKeyDown}
+            onBeforeInput={handleBeforeInput}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -80,12 +80,22 @@ export function Code(props: Props) {
       }
     }
 
+    // clicking a change selects it, unless the click ended a text selection
+    const onClick = (e: MouseEvent) => {
+      if (!window.getSelection()?.isCollapsed) return
+      const line = (e.target as HTMLElement).closest?.("[data-chgrp]")
+      if (!line) return
+      ctx.file.setChangeIndex(local.path, Number(line.getAttribute("data-chgrp")))
+    }
+
     container.addEventListener("scroll", onScroll)
+    container.addEventListener("click", onClick)
     document.addEventListener("selectionchange", onSelectionChange)
     document.addEventListener("keydown", onKeyDown)
 
     onCleanup(() => {
       container?.removeEventListener("scroll", onScroll)
+      container?.removeEventListener("click", onClick)
       document.removeEventListener("selectionchange", onSelectionChange)
       document.removeEventListener("keydown", onKeyDown)
     })
@@ -161,6 +171,18 @@ export function Code(props: Props) {
     })
   })
 
+  // Scroll to a revealed line once, after the selection above is in place
+  createEffect(() => {
+    const content = html()
+    if (!container || !content) return
+    const node = ctx.file.node(local.path)
+    // wait for the raw file, not the placeholder shown while it loads
+    if (node?.reveal === undefined || local.code !== node.content?.content) return
+    const lines = container.querySelectorAll<HTMLElement>("pre code .line")
+    lines[Math.min(node.reveal, lines.length) - 1]?.scrollIntoView({ block: "center" })
+    ctx.file.revealed(local.path)
+  })
+
   // Build/toggle split layout and apply folding (both unified and split)
   createEffect(() => {
     const content = html()
@@ -230,6 +252,20 @@ export function Code(props: Props) {
     if (scroll && nodes.length) nodes[0].scrollIntoView({ block: "center", behavior: "smooth" })
   }
 
+  // changes that were kept are staged already, they stay in the diff but faded
+  createEffect(() => {
+    const content = html()
+    if (!container || !content) return
+    ctx.file.view(local.path)
+    const kept = ctx.file.kept(local.path)
+    container.querySelectorAll<HTMLElement>(".diff-kept").forEach((el) => el.classList.remove("diff-kept"))
+    for (const idx of kept) {
+      container
+        .querySelectorAll<HTMLElement>(`[data-chgrp="${idx}"]`)
+        .forEach((el) => el.classList.add("diff-kept"))
+    }
+  })
+
   const countGroups = () => {
     if (!container) return 0
     const code = container.querySelector<HTMLElement>("pre code")
@@ -335,6 +371,8 @@ export function Code(props: Props) {
           [&_.diff-remove_.diff-oldln]:bg-error!
           [&_.diff-remove_.diff-oldln]:text-background-panel!
           [&_.diff-sign]:inline-block [&_.diff-sign]:px-2 [&_.diff-sign]:select-none
+          [&_.diff-kept]:opacity-50
+          [&_.diff-line[data-chgrp]]:cursor-pointer
           [&_.diff-blank]:bg-background-element
           [&_.diff-blank_.diff-oldln]:bg-background-element
           [&_.diff-blank_.diff-newln]:bg-background-element
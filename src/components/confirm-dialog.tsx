@@ -0,0 +1,49 @@
+import type { ParentProps } from "solid-js"
+import { AlertDialog } from "@kobalte/core/alert-dialog"
+import { Button } from "@/ui"
+
+export function ConfirmDialog(
+  props: ParentProps<{
+    title: string
+    description?: string
+    confirm?: string
+    destructive?: boolean
+    onConfirm: () => void
+    onClose: () => void
+  }>,
+) {
+  return (
+    <AlertDialog defaultOpen modal onOpenChange={(open) => open || props.onClose()}>
+      <AlertDialog.Portal>
+        <AlertDialog.Overlay class="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100]" />
+        <AlertDialog.Content
+          class="fixed top-[20%] left-1/2 -translate-x-1/2 w-[90vw] max-w-md p-4
+                 shadow-[0_0_33px_rgba(0,0,0,0.8)]
+                 bg-background border border-border-subtle/30 rounded-lg z-[101]
+                 flex flex-col gap-3"
+        >
+          <AlertDialog.Title class="text-sm text-text">{props.title}</AlertDialog.Title>
+          <AlertDialog.Description class="text-xs text-text-muted">{props.description}</AlertDialog.Description>
+          {props.children}
+          <div class="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => props.onClose()}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              variant="primary"
+              classList={{ "bg-error!": !!props.destructive }}
+              onClick={() => {
+                props.onConfirm()
+                props.onClose()
+              }}
+              autofocus
+            >
+              {props.confirm ?? "Confirm"}
+            </Button>
+          </div>
+        </AlertDialog.Content>
+      </AlertDialog.Portal>
+    </AlertDialog>
+  )
+}
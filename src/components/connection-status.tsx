@@ -0,0 +1,65 @@
+import { createEffect, createSignal, onCleanup, Show } from "solid-js"
+import { useEvent, useServer, useSync } from "@/context"
+import { Icon, IconButton, Tooltip } from "@/ui"
+import { labels } from "@/components/startup"
+
+export default function ConnectionStatus() {
+  const event = useEvent()
+  const server = useServer()
+  const sync = useSync()
+  const connection = event.connection
+  const [now, setNow] = createSignal(Date.now())
+
+  // tick while waiting so the countdown stays current
+  createEffect(() => {
+    if (!connection.retryAt()) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    onCleanup(() => clearInterval(timer))
+  })
+
+  const seconds = () => Math.max(0, Math.ceil(((connection.retryAt() ?? 0) - now()) / 1000))
+  const connected = () => connection.status() === "connected"
+  const label = () => {
+    if (connected()) return `Connected to ${server.url()}`
+    if (!connection.retryAt()) return `Connecting to ${server.url()}...`
+    return `${connection.error()}. Retrying in ${seconds()}s (attempt ${connection.attempt()}), click to retry now`
+  }
+
+  return (
+    <>
+      <Show when={sync.failed().length}>
+        <Tooltip
+          value={`Could not load ${sync.failed().map((name) => labels[name]).join(", ")}, click to retry`}
+          placement="bottom"
+        >
+          <IconButton size="xs" variant="ghost" class="text-warning" onClick={() => sync.retry()}>
+            <Icon name="warning" size={14} />
+          </IconButton>
+        </Tooltip>
+      </Show>
+      <Tooltip value={label()} placement="bottom">
+        <button
+          onClick={() => connection.reconnect()}
+          disabled={connected()}
+          class="h-6 px-1.5 flex items-center gap-1.5 rounded-md text-xs text-text-muted
+                 enabled:cursor-pointer enabled:hover:bg-background-element"
+        >
+          <span
+            classList={{
+              "size-1.5 rounded-full shrink-0": true,
+              "bg-success": connected(),
+              "bg-warning animate-pulse": !connected(),
+            }}
+          />
+          <Show when={connection.status() === "reconnecting"}>
+            <span class="text-warning whitespace-nowrap">Reconnecting</span>
+          </Show>
+          <Show when={connection.status() === "connecting"}>
+            <span class="whitespace-nowrap">Connecting</span>
+          </Show>
+        </button>
+      </Tooltip>
+    </>
+  )
+}
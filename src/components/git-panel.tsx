@@ -0,0 +1,516 @@
+import { createMemo, createResource, For, Index, onCleanup, Show, type JSX } from "solid-js"
+import { createStore } from "solid-js/store"
+import { useEvent, useLocal, useSDK, useServer, useSync } from "@/context"
+import { Button, FileIcon, Icon, IconButton, Tooltip } from "@/ui"
+import { Select } from "@/components/select"
+import { getDirectory, getFilename } from "@/utils"
+import { git, hunkPatch, parseHunks, type GitFile, type Hunk } from "@/utils/git"
+
+// a huge diff would only blow the model's context, the start of it is enough for a summary
+const MAX_DIFF = 20_000
+const COMMIT_PROMPT =
+  "Write a git commit message for the staged changes below. Use a short subject line in the imperative mood, " +
+  "followed by a blank line and a brief body only if the change needs explaining. " +
+  "Reply with the commit message only, no code fences."
+
+type Section = "staged" | "unstaged"
+type Sort = "name" | "size"
+
+const letter = (file: GitFile, section: Section) => {
+  const value = section === "staged" ? file.staged : file.unstaged
+  return value === "?" ? "A" : value
+}
+
+const tone = (letter: string) => ({ A: "text-success", D: "text-error", M: "text-primary" })[letter] ?? "text-warning"
+
+function StatusBadge(props: { letter: string }) {
+  return <span class={`shrink-0 w-3 text-center text-xs font-medium ${tone(props.letter)}`}>{props.letter}</span>
+}
+
+function LineCounts(props: { added: number; removed: number }) {
+  return (
+    <span class="shrink-0 flex items-center gap-1 text-[10px] tabular-nums">
+      <Show when={props.added}>
+        <span class="text-success">+{props.added}</span>
+      </Show>
+      <Show when={props.removed}>
+        <span class="text-error">-{props.removed}</span>
+      </Show>
+    </span>
+  )
+}
+
+function FileName(props: { path: string; directory: boolean }) {
+  return (
+    <>
+      <FileIcon node={{ path: props.path, type: "file" }} class="shrink-0 size-3" />
+      <span class="text-xs text-text whitespace-nowrap">{getFilename(props.path)}</span>
+      <Show when={props.directory}>
+        <span class="text-xs text-text-muted/60 whitespace-nowrap truncate min-w-0">{getDirectory(props.path)}</span>
+      </Show>
+    </>
+  )
+}
+
+export default function GitPanel() {
+  const sdk = useSDK()
+  const sync = useSync()
+  const local = useLocal()
+  const bus = useEvent()
+  const server = useServer()
+  const [store, setStore] = createStore({
+    message: "",
+    expanded: {} as Record<string, boolean>,
+    busy: false,
+    suggesting: false,
+    error: undefined as string | undefined,
+    filter: "",
+    sort: "name" as Sort,
+    grouped: false,
+  })
+
+  const directory = () => sync.data.path.directory
+  // git only runs in a project the app runs the server for, otherwise this is the server's plain list of changes
+  const repository = () => server.managed() && directory()
+  // failures are kept as a value, a resource in the error state throws wherever it's read
+  const [result, { refetch }] = createResource(repository, (directory) =>
+    git.status(directory).then(
+      (status) => ({ status, error: undefined }),
+      (e) => ({ status: undefined, error: e instanceof Error ? e.message : String(e) }),
+    ),
+  )
+  const status = () => result.latest?.status
+  const [branches, { refetch: refetchBranches }] = createResource(repository, (directory) =>
+    git.branches(directory).catch(() => [] as string[]),
+  )
+  const staged = createMemo(() => status()?.files.filter((f) => f.staged !== ".") ?? [])
+  const unstaged = createMemo(() => status()?.files.filter((f) => f.unstaged !== ".") ?? [])
+
+  // the server's line counts compare against HEAD, so a file counts the same in both sections
+  const counts = createMemo(() => new Map(sync.data.changes.map((file) => [file.path, file])))
+  const size = (path: string) => (counts().get(path)?.added ?? 0) + (counts().get(path)?.removed ?? 0)
+  const totals = createMemo(() =>
+    sync.data.changes.reduce(
+      (sum, file) => ({ added: sum.added + file.added, removed: sum.removed + file.removed }),
+      { added: 0, removed: 0 },
+    ),
+  )
+
+  // filtered and sorted, then split up by directory when grouping is on
+  const arrange = <T,>(items: T[], path: (item: T) => string) => {
+    const query = store.filter.toLowerCase()
+    const byName = (a: T, b: T) => path(a).localeCompare(path(b))
+    const sorted = items
+      .filter((item) => path(item).toLowerCase().includes(query))
+      .sort(store.sort === "size" ? (a, b) => size(path(b)) - size(path(a)) || byName(a, b) : byName)
+    if (!store.grouped) return [{ directory: undefined as string | undefined, items: sorted }]
+    const groups = new Map<string, T[]>()
+    for (const item of sorted) {
+      const directory = getDirectory(path(item))
+      if (!groups.has(directory)) groups.set(directory, [])
+      groups.get(directory)!.push(item)
+    }
+    return Array.from(groups, ([directory, items]) => ({ directory, items })).sort((a, b) =>
+      a.directory.localeCompare(b.directory),
+    )
+  }
+
+  // rows are keyed by path, so they and their hunks survive the refreshes that replace the items
+  const Arranged = <T,>(props: {
+    items: T[]
+    path: (item: T) => string
+    children: (item: () => T) => JSX.Element
+  }) => {
+    const groups = createMemo(() =>
+      arrange(props.items, props.path).map((group) => ({
+        directory: group.directory,
+        paths: group.items.map(props.path),
+      })),
+    )
+    const byPath = createMemo(() => new Map(props.items.map((item) => [props.path(item), item])))
+    return (
+      <ul>
+        <Index each={groups()}>
+          {(group) => (
+            <>
+              <Show when={group().directory !== undefined}>
+                <li class="px-2 pt-1 text-[10px] text-text-muted/60 truncate">{group().directory || "/"}</li>
+              </Show>
+              <For each={group().paths}>
+                {(path) => {
+                  // a row on its way out can still read once after its item is gone
+                  let last = byPath().get(path)!
+                  return props.children(() => (last = byPath().get(path) ?? last))
+                }}
+              </For>
+            </>
+          )}
+        </Index>
+      </ul>
+    )
+  }
+
+  const refresh = () => {
+    refetch()
+    sync.load.changes()
+  }
+
+  // the index also changes behind our back, from a terminal or the agent running git
+  let timer: ReturnType<typeof setTimeout> | undefined
+  bus.listen((event) => {
+    if (event.type !== "file.watcher.updated") return
+    clearTimeout(timer)
+    timer = setTimeout(refetch, 500)
+  })
+  onCleanup(() => clearTimeout(timer))
+
+  const run = async (action: () => Promise<unknown>) => {
+    setStore({ busy: true, error: undefined })
+    await action()
+      .then(refresh)
+      .catch((e) => setStore("error", e instanceof Error ? e.message : String(e)))
+      .finally(() => setStore("busy", false))
+  }
+
+  const stage = (paths: string[]) => run(() => git.stage(directory(), paths))
+  const unstage = (paths: string[]) => run(() => git.unstage(directory(), paths))
+  const stageHunk = (path: string, hunk: Hunk, section: Section) =>
+    run(() =>
+      section === "staged"
+        ? git.apply(directory(), hunkPatch(path, hunk), { cached: true, reverse: true })
+        : git.apply(directory(), hunkPatch(path, hunk), { cached: true }),
+    )
+
+  const commit = () =>
+    run(async () => {
+      await git.commit(directory(), store.message.trim())
+      setStore("message", "")
+    })
+
+  const switchBranch = (branch: string | undefined) => {
+    if (!branch || branch === status()?.branch) return
+    run(async () => {
+      await git.switch(directory(), branch)
+      refetchBranches()
+      local.file.refresh()
+    })
+  }
+
+  const suggest = async () => {
+    const model = local.model.current()
+    if (!model) return setStore("error", "Pick a model to write the commit message")
+    setStore({ suggesting: true, error: undefined })
+    try {
+      const diffs = await Promise.all(staged().map((file) => git.diff(directory(), file.path, true)))
+      const diff = diffs.join("\n")
+      if (!diff.trim()) throw new Error("Stage some changes first")
+      // every tool switched off, writing a commit message must not run commands or touch files
+      const ids = await sdk.tool.ids({ throwOnError: true }).then((x) => x.data)
+      const tools = Object.fromEntries(ids.map((id) => [id, false]))
+      // a throwaway session, so the message doesn't end up in the conversation you're having
+      const session = await sdk.session
+        .create({ body: { title: "Commit message" }, throwOnError: true })
+        .then((x) => x.data)
+      try {
+        const response = await sdk.session.prompt({
+          path: { id: session.id },
+          body: {
+            model: { modelID: model.id, providerID: model.provider.id },
+            tools,
+            parts: [{ type: "text", text: `${COMMIT_PROMPT}\n\n${diff.slice(0, MAX_DIFF)}` }],
+          },
+          throwOnError: true,
+        })
+        const text = response.data.parts
+          .flatMap((part) => (part.type === "text" && !part.synthetic ? [part.text] : []))
+          .join("\n")
+          .replace(/^```\w*\n?|\n?```$/g, "")
+          .trim()
+        if (text) setStore("message", text)
+      } finally {
+        await sdk.session.delete({ path: { id: session.id } })
+      }
+    } catch (e) {
+      setStore("error", e instanceof Error ? e.message : String(e))
+    } finally {
+      setStore("suggesting", false)
+    }
+  }
+
+  const FileRow = (props: { file: GitFile; section: Section }) => {
+    const key = () => `${props.section}:${props.file.path}`
+    return (
+      <li>
+        <div class="group/row flex items-center px-2 py-0.5 gap-x-1 hover:bg-background-element">
+          <IconButton
+            size="xs"
+            variant="ghost"
+            class="shrink-0 text-text-muted"
+            onClick={() => setStore("expanded", key(), (x) => !x)}
+          >
+            <Icon name={store.expanded[key()] ? "chevron-down" : "chevron-right"} size={12} />
+          </IconButton>
+          <button
+            class="grow min-w-0 flex items-center gap-x-2 text-left cursor-pointer"
+            onClick={() => local.file.open(props.file.path, { view: "diff-unified", pinned: true })}
+          >
+            <FileName path={props.file.path} directory={!store.grouped} />
+          </button>
+          <LineCounts
+            added={counts().get(props.file.path)?.added ?? 0}
+            removed={counts().get(props.file.path)?.removed ?? 0}
+          />
+          <Tooltip value={props.section === "staged" ? "Unstage" : "Stage"} placement="right">
+            <IconButton
+              size="xs"
+              variant="ghost"
+              class="shrink-0 opacity-0 group-hover/row:opacity-100"
+              disabled={store.busy}
+              onClick={() => (props.section === "staged" ? unstage : stage)([props.file.path])}
+            >
+              <Icon name={props.section === "staged" ? "minus" : "plus"} size={12} />
+            </IconButton>
+          </Tooltip>
+          <StatusBadge letter={letter(props.file, props.section)} />
+        </div>
+        <Show when={store.expanded[key()]}>
+          <Hunks file={props.file} section={props.section} />
+        </Show>
+      </li>
+    )
+  }
+
+  const Hunks = (props: { file: GitFile; section: Section }) => {
+    // fetched again whenever the status is, so the hunks follow staging
+    const [hunks] = createResource(
+      () => ({ status: status(), path: props.file.path }),
+      ({ path }) =>
+        git
+          .diff(directory(), path, props.section === "staged")
+          .then(parseHunks)
+          .catch(() => [] as Hunk[]),
+    )
+    return (
+      <Show
+        when={hunks.latest?.length}
+        fallback={<div class="pl-9 pr-2 py-0.5 text-xs text-text-muted/60">No line changes to show</div>}
+      >
+        <ul class="pl-7 pr-2 flex flex-col gap-1 pb-1">
+          <For each={hunks.latest}>
+            {(hunk) => (
+              <li class="group/hunk rounded-md ring-1 ring-border-subtle/40 overflow-hidden">
+                <div class="flex items-center px-1.5 bg-background-element/50 text-[10px] text-text-muted">
+                  <span class="grow font-mono">
+                    @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                  </span>
+                  <Tooltip value={props.section === "staged" ? "Unstage hunk" : "Stage hunk"} placement="right">
+                    <IconButton
+                      size="xs"
+                      variant="ghost"
+                      class="opacity-0 group-hover/hunk:opacity-100"
+                      disabled={store.busy}
+                      onClick={() => stageHunk(props.file.path, hunk, props.section)}
+                    >
+                      <Icon name={props.section === "staged" ? "minus" : "plus"} size={12} />
+                    </IconButton>
+                  </Tooltip>
+                </div>
+                <pre class="m-0 px-1.5 py-0.5 max-h-40 overflow-auto no-scrollbar font-mono text-[10px] leading-4">
+                  <For each={hunk.lines.filter((line) => line[0] === "+" || line[0] === "-")}>
+                    {(line) => (
+                      <div classList={{ "text-success": line[0] === "+", "text-error": line[0] === "-" }}>{line}</div>
+                    )}
+                  </For>
+                </pre>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+    )
+  }
+
+  const FileSection = (props: { title: string; files: GitFile[]; section: Section }) => (
+    <Show when={props.files.length}>
+      <section class="flex flex-col">
+        <div class="group/section flex items-center px-2 py-1 gap-x-1">
+          <h3 class="grow text-xs uppercase tracking-wider text-text-muted/60">
+            {props.title} <span class="normal-case">({props.files.length})</span>
+          </h3>
+          <Tooltip value={props.section === "staged" ? "Unstage all" : "Stage all"} placement="right">
+            <IconButton
+              size="xs"
+              variant="ghost"
+              class="opacity-0 group-hover/section:opacity-100"
+              disabled={store.busy}
+              onClick={() => (props.section === "staged" ? unstage : stage)(props.files.map((f) => f.path))}
+            >
+              <Icon name={props.section === "staged" ? "minus" : "plus"} size={12} />
+            </IconButton>
+          </Tooltip>
+        </div>
+        <Arranged items={props.files} path={(file) => file.path}>
+          {(file) => <FileRow file={file()} section={props.section} />}
+        </Arranged>
+      </section>
+    </Show>
+  )
+
+  // what the server reports as changed, for when git can't be run from here, e.g. outside the desktop app
+  const ChangeList = () => (
+    <Show when={sync.data.changes.length} fallback={<div class="px-2 text-xs text-text-muted">No changes</div>}>
+      <Arranged items={sync.data.changes} path={(file) => file.path}>
+        {(file) => (
+          <li>
+            <button
+              onClick={() => local.file.open(file().path, { view: "diff-unified", pinned: true })}
+              class="w-full flex items-center px-2 py-0.5 gap-x-2 text-text-muted grow min-w-0 cursor-pointer
+                     hover:bg-background-element"
+            >
+              <FileName path={file().path} directory={!store.grouped} />
+              <span class="grow" />
+              <LineCounts added={file().added} removed={file().removed} />
+              <StatusBadge letter={file().status[0].toUpperCase()} />
+            </button>
+          </li>
+        )}
+      </Arranged>
+    </Show>
+  )
+
+  const Toolbar = () => (
+    <Show when={sync.data.changes.length || status()?.files.length}>
+      <div class="px-2 flex flex-col gap-1">
+        <input
+          type="text"
+          value={store.filter}
+          onInput={(e) => setStore("filter", e.currentTarget.value)}
+          onKeyDown={(e) => e.key === "Escape" && setStore("filter", "")}
+          placeholder="Filter changes"
+          class="w-full px-2 py-1 rounded-md bg-background-panel ring-1 ring-border-subtle/60
+                 text-xs text-text placeholder-text-muted/70 focus:outline-none focus:ring-border-active"
+          spellcheck={false}
+        />
+        <div class="flex items-center gap-1 text-xs text-text-muted">
+          <span class="whitespace-nowrap">
+            {sync.data.changes.length} {sync.data.changes.length === 1 ? "file" : "files"}
+          </span>
+          <LineCounts added={totals().added} removed={totals().removed} />
+          <Button
+            class="ml-auto"
+            size="sm"
+            variant="ghost"
+            onClick={() => setStore("sort", store.sort === "name" ? "size" : "name")}
+          >
+            {store.sort === "name" ? "By name" : "By size"}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            classList={{ "bg-background-element": store.grouped }}
+            onClick={() => setStore("grouped", !store.grouped)}
+          >
+            Folders
+          </Button>
+        </div>
+      </div>
+    </Show>
+  )
+
+  return (
+    <Show
+      when={server.managed() && !result.latest?.error}
+      fallback={
+        <div class="flex flex-col gap-2">
+          <Show when={result.latest?.error}>
+            <div class="px-2 text-xs text-text-muted/60 break-words">{result.latest?.error}</div>
+          </Show>
+          <Toolbar />
+          <ChangeList />
+        </div>
+      }
+    >
+      <div class="h-full flex flex-col gap-2 overflow-y-auto">
+        <div class="px-2 flex items-center gap-1 text-xs text-text-muted">
+          <Icon name="branch" size={14} class="shrink-0" />
+          <Show when={status()?.branch} fallback={<span class="px-1">Detached HEAD</span>}>
+            <Select
+              options={branches.latest ?? []}
+              current={status()?.branch}
+              onSelect={switchBranch}
+              variant="ghost"
+              class="min-w-0 text-text"
+            />
+          </Show>
+          <Show when={status()?.upstream}>
+            <Tooltip value={`Compared to ${status()!.upstream}`} placement="bottom">
+              <span class="flex items-center gap-1.5 whitespace-nowrap">
+                <span class="flex items-center">
+                  <Icon name="arrow-up" size={12} />
+                  {status()!.ahead}
+                </span>
+                <span class="flex items-center">
+                  <Icon name="arrow-down" size={12} />
+                  {status()!.behind}
+                </span>
+              </span>
+            </Tooltip>
+          </Show>
+          <div class="ml-auto">
+            <Tooltip value="Refresh" placement="bottom">
+              <IconButton size="xs" variant="ghost" onClick={refresh}>
+                <Icon name="refresh" size={12} classList={{ "animate-spin": result.loading }} />
+              </IconButton>
+            </Tooltip>
+          </div>
+        </div>
+        <div class="px-2 flex flex-col gap-1">
+          <textarea
+            class="w-full min-h-16 px-2 py-1 resize-y rounded-md bg-background-element text-xs text-text
+                   placeholder:text-text-muted/60 outline-none focus:ring-1 focus:ring-border-active"
+            placeholder="Commit message"
+            value={store.message}
+            onInput={(e) => setStore("message", e.currentTarget.value)}
+            onKeyDown={(e) => {
+              if ((e.metaKey || e.ctrlKey) && e.key === "Enter" && store.message.trim() && staged().length) commit()
+            }}
+          />
+          <div class="flex items-center gap-1">
+            <Tooltip value="Ask the agent to write the commit message" placement="bottom">
+              <IconButton
+                size="xs"
+                variant="ghost"
+                disabled={store.suggesting || !staged().length}
+                onClick={suggest}
+              >
+                <Show when={store.suggesting} fallback={<Icon name="sparkles" size={14} />}>
+                  <Icon name="loading" size={14} class="animate-spin" />
+                </Show>
+              </IconButton>
+            </Tooltip>
+            <Button
+              class="grow"
+              size="sm"
+              variant="primary"
+              disabled={store.busy || !store.message.trim() || !staged().length}
+              onClick={commit}
+            >
+              Commit {staged().length} {staged().length === 1 ? "file" : "files"}
+            </Button>
+          </div>
+          <Show when={store.error}>
+            <div class="text-xs text-error break-words">{store.error}</div>
+          </Show>
+        </div>
+        <Toolbar />
+        <Show
+          when={status()?.files.length}
+          fallback={<div class="px-2 text-xs text-text-muted">{result.loading ? "Loading..." : "No changes"}</div>}
+        >
+          <FileSection title="Staged" files={staged()} section="staged" />
+          <FileSection title="Changes" files={unstaged()} section="unstaged" />
+        </Show>
+      </div>
+    </Show>
+  )
+}
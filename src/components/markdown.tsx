@@ -1,23 +1,30 @@
 import { useMarked } from "@/context"
-import { createResource } from "solid-js"
+import { createMemo, createResource, Index, untrack } from "solid-js"
+import { blocks, renderBlock, type KeyedBlock } from "@/utils/markdown"
 
 function strip(text: string): string {
   const wrappedRe = /^\s*<([A-Za-z]\w*)>\s*([\s\S]*?)\s*<\/\1>\s*$/
   const match = text.match(wrappedRe)
   return match ? match[2] : text
 }
-export function Markdown(props: { text: string; class?: string }) {
+
+function Block(props: { block: KeyedBlock }) {
   const marked = useMarked()
+  // keyed on the raw text and the link definitions, so blocks that didn't change keep their DOM while the answer
+  // streams in
   const [html] = createResource(
-    () => strip(props.text),
-    async (markdown) => {
-      return marked.parse(markdown)
-    },
+    () => props.block.key,
+    () => renderBlock(marked, untrack(() => props.block)),
   )
+  return <div class="contents" innerHTML={html()} />
+}
+
+export function Markdown(props: { text: string; class?: string }) {
+  const marked = useMarked()
+  const tokens = createMemo(() => blocks(marked, strip(props.text)))
   return (
-    <div
-      class={`min-w-0 max-w-full text-xs overflow-auto no-scrollbar prose ${props.class ?? ""}`}
-      innerHTML={html()}
-    />
+    <div class={`min-w-0 max-w-full text-xs overflow-auto no-scrollbar prose ${props.class ?? ""}`}>
+      <Index each={tokens()}>{(block) => <Block block={block()} />}</Index>
+    </div>
   )
 }
@@ -0,0 +1,38 @@
+import { createMemo, Show } from "solid-js"
+import { useLocal, useSync } from "@/context"
+import { Icon, Tooltip } from "@/ui"
+
+// sessions waiting for approval that aren't visible in the session pane
+export default function PermissionBadge() {
+  const sync = useSync()
+  const local = useLocal()
+
+  const waiting = createMemo(() =>
+    Object.keys(sync.data.permission).filter((sessionID) => {
+      if (!sync.data.permission[sessionID]?.length) return false
+      return !(local.layout.rightPane() && local.session.active()?.id === sessionID)
+    }),
+  )
+  const count = () => waiting().reduce((sum, sessionID) => sum + sync.data.permission[sessionID].length, 0)
+  const titles = () => waiting().map((sessionID) => sync.session.get(sessionID)?.title || "Untitled Session")
+
+  const open = () => {
+    local.session.setActive(waiting()[0])
+    local.layout.openRightPane()
+  }
+
+  return (
+    <Show when={waiting().length}>
+      <Tooltip value={`Waiting for approval: ${titles().join(", ")}`} placement="bottom">
+        <button
+          onClick={open}
+          class="h-6 px-1.5 flex items-center gap-1 rounded-md cursor-pointer text-xs text-warning
+                 bg-warning/10 hover:bg-warning/20"
+        >
+          <Icon name="lock" size={12} />
+          <span>{count()}</span>
+        </button>
+      </Tooltip>
+    </Show>
+  )
+}
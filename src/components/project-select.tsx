@@ -0,0 +1,92 @@
+import { onCleanup, onMount, Show, createEffect } from "solid-js"
+import { createStore } from "solid-js/store"
+import { useServer, useSync } from "@/context"
+import { Icon, Tooltip } from "@/ui"
+import { SelectDialog } from "@/components/select-dialog"
+import { getDirectory, getFilename } from "@/utils"
+
+const OPEN = "\0open"
+
+export default function ProjectSelect() {
+  const sync = useSync()
+  const server = useServer()
+  const [store, setStore] = createStore({
+    open: false,
+  })
+
+  createEffect(() => {
+    if (sync.data.path.directory) server.projects.touch(sync.data.path.directory)
+  })
+
+  const choose = async (directory: string | undefined) => {
+    if (!directory) return
+    if (directory === sync.data.path.directory) {
+      await Promise.all(Object.values(sync.load).map((p) => p()))
+      return
+    }
+    server.projects.open(directory)
+  }
+
+  const browse = async () => choose(await server.projects.pick())
+
+  const MOD = typeof navigator === "object" && /(Mac|iPod|iPhone|iPad)/.test(navigator.platform) ? "Meta" : "Control"
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.getModifierState(MOD) && e.key.toLowerCase() === "o") {
+      e.preventDefault()
+      browse()
+    }
+  }
+
+  onMount(() => {
+    document.addEventListener("keydown", handleKeyDown)
+  })
+
+  onCleanup(() => {
+    document.removeEventListener("keydown", handleKeyDown)
+  })
+
+  return (
+    <>
+      <Tooltip value={sync.data.path.directory} placement="bottom" class="break-all">
+        <button
+          onClick={() => setStore("open", true)}
+          class="w-full h-8 px-2 flex items-center gap-x-2 cursor-pointer border-b border-border-subtle/40
+                 text-text-muted hover:bg-background-element"
+        >
+          <Icon name="folder-search" size={14} class="shrink-0" />
+          <span class="text-xs text-text truncate">{getFilename(sync.data.path.directory) || "No project"}</span>
+          <Icon name="chevron-down" size={16} class="ml-auto shrink-0 text-text-muted/60" />
+        </button>
+      </Tooltip>
+      <Show when={store.open}>
+        <SelectDialog
+          items={[OPEN, ...server.projects.recent()]}
+          key={(x) => x}
+          current={sync.data.path.directory}
+          placeholder="Search recent projects"
+          render={(i) => (
+            <Show
+              when={i !== OPEN}
+              fallback={
+                <div class="flex items-center gap-x-2 text-xs text-text">
+                  <Icon name="plus" size={16} class="text-text-muted" />
+                  <span>Open project...</span>
+                </div>
+              }
+            >
+              <div class="w-full flex items-center gap-x-2 text-text-muted min-w-0">
+                <span class="text-xs text-text whitespace-nowrap">{getFilename(i)}</span>
+                <span class="text-xs text-text-muted/80 whitespace-nowrap truncate min-w-0">{getDirectory(i)}</span>
+                <Show when={i === sync.data.path.directory}>
+                  <span class="ml-auto text-[10px] uppercase text-success/80 shrink-0">current</span>
+                </Show>
+              </div>
+            </Show>
+          )}
+          onClose={() => setStore("open", false)}
+          onSelect={(x) => (x === OPEN ? browse() : choose(x))}
+        />
+      </Show>
+    </>
+  )
+}
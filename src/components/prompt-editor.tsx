@@ -0,0 +1,229 @@
+import { createEffect, createMemo, createResource, For, Match, on, Show, Switch } from "solid-js"
+import { createStore } from "solid-js/store"
+import fuzzysort from "fuzzysort"
+import { useLocal } from "@/context"
+import { FileIcon, Icon } from "@/ui"
+import { getDirectory, getFilename } from "@/utils"
+
+// a completed `@path` in the prompt text, `end` is exclusive
+export type Mention = { path: string; start: number; end: number }
+
+// built-in commands run as soon as they're picked, the others are completed so arguments can be typed
+export type PromptCommand = { name: string; description?: string; builtin?: boolean }
+
+type Item = { type: "file"; path: string } | { type: "command"; command: PromptCommand }
+
+const boundary = (text: string, index: number) => index < 0 || index >= text.length || /\s/.test(text[index])
+
+// finds where the completed mentions still appear in the text, the user may have edited or removed them since
+export function mentions(text: string, paths: string[]): Mention[] {
+  const result: Mention[] = []
+  for (const path of new Set(paths)) {
+    const token = "@" + path
+    let start = text.indexOf(token)
+    while (start !== -1) {
+      const end = start + token.length
+      if (boundary(text, start - 1) && boundary(text, end)) result.push({ path, start, end })
+      start = text.indexOf(token, end)
+    }
+  }
+  return result.sort((a, b) => a.start - b.start)
+}
+
+export default function PromptEditor(props: {
+  ref?: (el: HTMLTextAreaElement) => void
+  value: string
+  onInput: (value: string) => void
+  onMention?: (path: string) => void
+  commands?: PromptCommand[]
+  onCommand?: (name: string) => void
+  placeholder?: string
+}) {
+  const local = useLocal()
+  let ref!: HTMLTextAreaElement
+  const [store, setStore] = createStore({
+    // position of the `@` or `/` and the text typed after it
+    completion: undefined as { type: "file" | "command"; start: number; query: string } | undefined,
+    selected: 0,
+    // -1 is the draft being written, 0 and up index into the history
+    history: -1,
+    draft: "",
+  })
+
+  const [files] = createResource(
+    () => (store.completion?.type === "file" ? store.completion.query : undefined),
+    (query) => local.file.search(query).then((x) => x.slice(0, 10)),
+  )
+  const items = createMemo((): Item[] => {
+    const completion = store.completion
+    if (completion?.type === "file") return (files() ?? []).map((path) => ({ type: "file", path }))
+    if (completion?.type === "command")
+      return fuzzysort
+        .go(completion.query, props.commands ?? [], { keys: ["name", "description"], all: true })
+        .map((x) => ({ type: "command", command: x.obj }))
+    return []
+  })
+
+  createEffect(on(items, () => setStore("selected", 0)))
+
+  createEffect(() => {
+    props.value
+    ref.style.height = "auto"
+    ref.style.height = `${ref.scrollHeight}px`
+  })
+
+  createEffect(() => {
+    if (!props.value) setStore("history", -1)
+  })
+
+  const moveCaret = (position: number) => queueMicrotask(() => ref.setSelectionRange(position, position))
+
+  const detect = () => {
+    const before = props.value.slice(0, ref.selectionStart)
+    if (ref.selectionStart !== ref.selectionEnd) return setStore("completion", undefined)
+    // commands only make sense as the whole prompt
+    const command = props.commands?.length ? before.match(/^\/(\S*)$/) : null
+    if (command) return setStore("completion", { type: "command", start: 0, query: command[1] })
+    const mention = before.match(/(?:^|\s)@(\S*)$/)
+    if (!mention) return setStore("completion", undefined)
+    setStore("completion", { type: "file", start: before.length - mention[1].length - 1, query: mention[1] })
+  }
+
+  const accept = (item: Item) => {
+    const completion = store.completion
+    if (!completion) return
+    setStore("completion", undefined)
+    if (item.type === "command" && item.command.builtin) {
+      props.onInput("")
+      props.onCommand?.(item.command.name)
+      return
+    }
+    const text = item.type === "file" ? `@${item.path} ` : `/${item.command.name} `
+    props.onInput(props.value.slice(0, completion.start) + text + props.value.slice(ref.selectionStart))
+    if (item.type === "file") props.onMention?.(item.path)
+    moveCaret(completion.start + text.length)
+  }
+
+  const recall = (direction: 1 | -1) => {
+    const history = local.prompt.history()
+    const next = store.history + direction
+    if (next < -1 || next >= history.length) return false
+    if (store.history === -1) setStore("draft", props.value)
+    const value = next === -1 ? store.draft : history[next]
+    props.onInput(value)
+    setStore("history", next)
+    moveCaret(value.length)
+    return true
+  }
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (store.completion && items().length) {
+      switch (e.key) {
+        case "ArrowDown":
+        case "ArrowUp": {
+          e.preventDefault()
+          const count = items().length
+          setStore("selected", (selected) => (selected + (e.key === "ArrowDown" ? 1 : -1) + count) % count)
+          return
+        }
+        case "Enter":
+        case "Tab":
+          e.preventDefault()
+          accept(items()[store.selected])
+          return
+      }
+    }
+    if (store.completion && e.key === "Escape") {
+      // the page's own listener sits on document too, next to Solid's delegated one, so stopping propagation
+      // wouldn't reach it. It skips handled keys instead of treating this as abort or blur
+      e.preventDefault()
+      setStore("completion", undefined)
+      return
+    }
+    if (e.key === "Enter" && !e.shiftKey && !e.isComposing) {
+      e.preventDefault()
+      ref.form?.requestSubmit()
+      return
+    }
+    if (e.key === "ArrowUp" && !props.value.slice(0, ref.selectionStart).includes("\n")) {
+      if (recall(1)) e.preventDefault()
+      return
+    }
+    if (e.key === "ArrowDown" && !props.value.slice(ref.selectionEnd).includes("\n")) {
+      if (recall(-1)) e.preventDefault()
+    }
+  }
+
+  return (
+    <div class="relative">
+      <Show when={items().length}>
+        <ul
+          class="absolute bottom-full inset-x-0 mb-2 p-1 z-50 max-h-64 overflow-y-auto rounded-md bg-background
+                 border border-border-subtle/30 shadow-[0_0_33px_rgba(0,0,0,0.8)]"
+        >
+          <For each={items()}>
+            {(item, index) => (
+              <li>
+                <button
+                  type="button"
+                  // keep the focus in the textarea
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => accept(item)}
+                  onMouseMove={() => setStore("selected", index())}
+                  classList={{
+                    "w-full px-2 py-1 flex items-center gap-x-2 rounded-md text-left": true,
+                    "bg-background-element": index() === store.selected,
+                  }}
+                >
+                  <Switch>
+                    <Match when={item.type === "file" && item}>
+                      {(item) => (
+                        <>
+                          <FileIcon node={{ path: item().path, type: "file" }} class="shrink-0 size-4" />
+                          <span class="text-xs text-text whitespace-nowrap">{getFilename(item().path)}</span>
+                          <span class="text-xs text-text-muted/80 truncate min-w-0">{getDirectory(item().path)}</span>
+                        </>
+                      )}
+                    </Match>
+                    <Match when={item.type === "command" && item}>
+                      {(item) => (
+                        <>
+                          <Icon name={item().command.builtin ? "command" : "slash"} size={16} class="shrink-0" />
+                          <span class="text-xs text-text whitespace-nowrap">/{item().command.name}</span>
+                          <span class="text-xs text-text-muted/80 truncate min-w-0">{item().command.description}</span>
+                        </>
+                      )}
+                    </Match>
+                  </Switch>
+                </button>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+      <textarea
+        ref={(el) => {
+          ref = el
+          props.ref?.(el)
+        }}
+        rows={1}
+        value={props.value}
+        onInput={(e) => {
+          props.onInput(e.currentTarget.value)
+          setStore("history", -1)
+          detect()
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => {
+          if (e.key === "ArrowLeft" || e.key === "ArrowRight" || e.key === "Home" || e.key === "End") detect()
+        }}
+        onClick={detect}
+        onBlur={() => setStore("completion", undefined)}
+        placeholder={props.placeholder}
+        class="w-full max-h-60 p-1 pb-4 resize-none overflow-y-auto
+               text-text font-light placeholder-text-muted/70 text-sm focus:outline-none"
+        spellcheck={false}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+import { createMemo, createResource, createSignal, For, onCleanup, Show } from "solid-js"
+import { createStore } from "solid-js/store"
+import type { FindTextResponse } from "@opencode-ai/sdk"
+import { useLocal, useSDK } from "@/context"
+import { FileIcon, Icon, IconButton, Tooltip } from "@/ui"
+import { getDirectory, getFilename } from "@/utils"
+import { charOffset, globMatcher, searchPattern } from "@/utils/search"
+
+type Match = FindTextResponse[number]
+type Result = { path: string; line: number; text: string; start: number; end: number }
+
+const DEBOUNCE = 300
+// characters of a long line shown before the match
+const PREVIEW_BEFORE = 40
+
+function Preview(props: { result: Result }) {
+  const from = () => Math.max(0, props.result.start - PREVIEW_BEFORE)
+  return (
+    <span class="truncate font-mono text-[11px] text-text-muted">
+      <Show when={from() > 0}>…</Show>
+      {props.result.text.slice(from(), props.result.start).trimStart()}
+      <mark class="rounded-sm bg-warning/30 text-text">
+        {props.result.text.slice(props.result.start, props.result.end)}
+      </mark>
+      {props.result.text.slice(props.result.end)}
+    </span>
+  )
+}
+
+function Field(props: { value: string; placeholder: string; onInput: (value: string) => void }) {
+  return (
+    <input
+      type="text"
+      value={props.value}
+      onInput={(e) => props.onInput(e.currentTarget.value)}
+      placeholder={props.placeholder}
+      class="w-full min-w-0 px-2 py-1 rounded-md bg-background-panel ring-1 ring-border-subtle/60
+             text-xs text-text placeholder-text-muted/70 focus:outline-none focus:ring-border-active"
+      spellcheck={false}
+    />
+  )
+}
+
+function Toggle(props: { label: string; title: string; active: boolean; onClick: () => void }) {
+  return (
+    <Tooltip value={props.title} placement="bottom">
+      <IconButton
+        size="xs"
+        variant="ghost"
+        class="w-auto! px-1 font-mono"
+        classList={{ "bg-background-element text-text": props.active, "text-text-muted/70": !props.active }}
+        onClick={props.onClick}
+      >
+        <span>{props.label}</span>
+      </IconButton>
+    </Tooltip>
+  )
+}
+
+export default function SearchPanel() {
+  const sdk = useSDK()
+  const local = useLocal()
+  const [store, setStore] = createStore({
+    input: "",
+    regex: false,
+    caseSensitive: false,
+    include: "",
+    exclude: "",
+    collapsed: {} as Record<string, boolean>,
+  })
+  // the query that was searched for, typing only searches once it pauses
+  const [query, setQuery] = createSignal("")
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const search = (value: string, now?: boolean) => {
+    setStore("input", value)
+    clearTimeout(timer)
+    if (now) setQuery(value)
+    else timer = setTimeout(() => setQuery(value), DEBOUNCE)
+  }
+  onCleanup(() => clearTimeout(timer))
+
+  // an invalid regex comes back as an error, kept as a value since a failed resource throws wherever it's read
+  const [response] = createResource(
+    () => query() && searchPattern(query(), { regex: store.regex, caseSensitive: store.caseSensitive }),
+    (pattern) =>
+      sdk.find.text({ query: { pattern }, throwOnError: true }).then(
+        (x) => ({ matches: x.data as Match[], error: undefined }),
+        (e) => ({ matches: [] as Match[], error: e instanceof Error ? e.message : JSON.stringify(e) }),
+      ),
+  )
+
+  // the server can't filter by path, the globs apply to what comes back
+  const results = createMemo(() => {
+    if (!query()) return []
+    const include = globMatcher(store.include)
+    const exclude = globMatcher(store.exclude)
+    const files = new Map<string, Result[]>()
+    for (const match of response.latest?.matches ?? []) {
+      const path = match.path.text.replace(/^\.\//, "")
+      if ((include && !include(path)) || exclude?.(path)) continue
+      const text = match.lines.text.replace(/\r?\n$/, "")
+      for (const submatch of match.submatches) {
+        const start = charOffset(text, submatch.start)
+        const end = charOffset(text, submatch.end)
+        if (!files.has(path)) files.set(path, [])
+        files.get(path)!.push({ path, line: match.line_number, text, start, end })
+      }
+    }
+    return Array.from(files, ([path, results]) => ({ path, results }))
+  })
+  const total = createMemo(() => results().reduce((sum, file) => sum + file.results.length, 0))
+  // the server stops after its first few matches, a filter can leave out files that would have matched further on
+  const returned = () => response.latest?.matches.length ?? 0
+  const filtered = () => !!(store.include.trim() || store.exclude.trim())
+
+  const open = async (result: Result) => {
+    await local.file.open(result.path, { pinned: true })
+    local.file.reveal(result.path, {
+      startLine: result.line,
+      startChar: result.start,
+      endLine: result.line,
+      endChar: result.end,
+    })
+  }
+
+  return (
+    <div class="h-full flex flex-col gap-2">
+      <div class="px-2 flex flex-col gap-1">
+        <div class="flex items-center gap-1">
+          <input
+            type="text"
+            value={store.input}
+            onInput={(e) => search(e.currentTarget.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") search(e.currentTarget.value, true)
+              if (e.key === "Escape") search("", true)
+            }}
+            placeholder="Search in files"
+            class="grow min-w-0 px-2 py-1 rounded-md bg-background-panel ring-1 ring-border-subtle/60
+                   text-xs text-text placeholder-text-muted/70 focus:outline-none focus:ring-border-active"
+            spellcheck={false}
+          />
+          <Toggle
+            label="Aa"
+            title="Match case"
+            active={store.caseSensitive}
+            onClick={() => setStore("caseSensitive", !store.caseSensitive)}
+          />
+          <Toggle
+            label=".*"
+            title="Regular expression"
+            active={store.regex}
+            onClick={() => setStore("regex", !store.regex)}
+          />
+        </div>
+        <Field
+          value={store.include}
+          placeholder="Files to include, e.g. src/**, *.ts"
+          onInput={(value) => setStore("include", value)}
+        />
+        <Field value={store.exclude} placeholder="Files to exclude" onInput={(value) => setStore("exclude", value)} />
+      </div>
+      <Show when={query()}>
+        <div class="px-2 flex items-center gap-2 text-xs text-text-muted">
+          <Show when={response.loading}>
+            <Icon name="loading" size={12} class="animate-spin" />
+          </Show>
+          <Show
+            when={!response.latest?.error}
+            fallback={<span class="min-w-0 text-error break-words">{response.latest?.error}</span>}
+          >
+            <span>
+              {total()} {total() === 1 ? "result" : "results"} in {results().length}{" "}
+              {results().length === 1 ? "file" : "files"}
+            </span>
+          </Show>
+        </div>
+        <Show when={!response.latest?.error && filtered() && returned() > 0}>
+          <div class="px-2 text-[11px] text-text-muted/70">
+            The file filters only apply to the first {returned()} {returned() === 1 ? "match" : "matches"} the server
+            returns, search for something more specific if a file is missing.
+          </div>
+        </Show>
+      </Show>
+      <ul class="grow min-h-0 overflow-y-auto">
+        <For each={results()}>
+          {(file) => (
+            <li>
+              <button
+                class="w-full flex items-center px-2 py-0.5 gap-x-2 text-text-muted cursor-pointer
+                       hover:bg-background-element"
+                onClick={() => setStore("collapsed", file.path, (x) => !x)}
+              >
+                <Icon
+                  name={store.collapsed[file.path] ? "chevron-right" : "chevron-down"}
+                  size={12}
+                  class="shrink-0"
+                />
+                <FileIcon node={{ path: file.path, type: "file" }} class="shrink-0 size-3" />
+                <span class="text-xs text-text whitespace-nowrap">{getFilename(file.path)}</span>
+                <span class="text-xs text-text-muted/60 whitespace-nowrap truncate min-w-0">
+                  {getDirectory(file.path)}
+                </span>
+                <span class="ml-auto shrink-0 text-[10px] text-text-muted">{file.results.length}</span>
+              </button>
+              <Show when={!store.collapsed[file.path]}>
+                <ul>
+                  <For each={file.results}>
+                    {(result) => (
+                      <li>
+                        <button
+                          class="w-full flex items-center pl-9 pr-2 py-0.5 gap-x-2 cursor-pointer
+                                 hover:bg-background-element"
+                          onClick={() => open(result)}
+                        >
+                          <span class="shrink-0 w-6 text-right text-[10px] text-text-muted/60">{result.line}</span>
+                          <Preview result={result} />
+                        </button>
+                      </li>
+                    )}
+                  </For>
+                </ul>
+              </Show>
+            </li>
+          )}
+        </For>
+      </ul>
+    </div>
+  )
+}
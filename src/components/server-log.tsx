@@ -0,0 +1,39 @@
+import { createEffect, For, Show } from "solid-js"
+import { useServer } from "@/context"
+
+export function ServerLog(props: { class?: string }) {
+  const server = useServer()
+  let scrollRef: HTMLDivElement | undefined
+
+  createEffect(() => {
+    server.process.log().length
+    if (scrollRef) scrollRef.scrollTop = scrollRef.scrollHeight
+  })
+
+  return (
+    <div
+      ref={(el) => (scrollRef = el)}
+      classList={{
+        "font-mono text-[11px] leading-4 overflow-y-auto rounded-md p-2": true,
+        "bg-background-panel ring-1 ring-border-subtle/40 select-text": true,
+        [props.class ?? ""]: !!props.class,
+      }}
+    >
+      <Show when={server.process.log().length} fallback={<div class="text-text-muted/60">No output yet</div>}>
+        <For each={server.process.log()}>
+          {(entry) => (
+            <div
+              classList={{
+                "whitespace-pre-wrap break-all": true,
+                "text-text-muted": entry.stream === "stdout",
+                "text-error/80": entry.stream === "stderr",
+              }}
+            >
+              {entry.line}
+            </div>
+          )}
+        </For>
+      </Show>
+    </div>
+  )
+}
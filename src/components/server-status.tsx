@@ -0,0 +1,51 @@
+import { Match, Show, Switch } from "solid-js"
+import { useNavigate } from "@solidjs/router"
+import { useServer } from "@/context"
+import { Button, Icon, Logo } from "@/ui"
+import { ServerLog } from "./server-log"
+
+export default function ServerStatus() {
+  const server = useServer()
+  const navigate = useNavigate()
+
+  return (
+    <div class="h-screen flex items-center justify-center px-4">
+      <div class="w-full max-w-xl flex flex-col gap-4">
+        <div class="flex items-center gap-2">
+          <Logo variant="mark" size={20} />
+          <h1 class="text-sm font-medium text-text">{server.current().name}</h1>
+          <span class="text-xs text-text-muted/60 truncate min-w-0">{server.current().directory}</span>
+        </div>
+        <div class="flex items-center gap-1.5 text-xs">
+          <Switch>
+            <Match when={server.process.status() === "failed"}>
+              <Icon name="close-circle" size={14} class="text-error" />
+              <span class="text-error">{server.process.error() ?? "opencode serve failed"}</span>
+            </Match>
+            <Match when={server.process.status() === "restarting"}>
+              <Icon name="loading" size={14} class="animate-spin" />
+              <span>opencode serve stopped unexpectedly, restarting...</span>
+            </Match>
+            <Match when={true}>
+              <Icon name="loading" size={14} class="animate-spin" />
+              <span>Starting opencode serve...</span>
+            </Match>
+          </Switch>
+        </div>
+        <ServerLog class="h-64" />
+        <div class="flex items-center justify-end gap-2">
+          <Show when={server.process.status() === "failed" && server.current().directory}>
+            {(directory) => (
+              <Button size="md" class="pr-3" onClick={() => server.process.start(directory())}>
+                Retry
+              </Button>
+            )}
+          </Show>
+          <Button size="md" class="pr-3" onClick={() => navigate("/settings")}>
+            Connection settings
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
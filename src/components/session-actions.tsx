@@ -0,0 +1,137 @@
+import { createSignal, For, Show } from "solid-js"
+import { DropdownMenu } from "@kobalte/core/dropdown-menu"
+import { invoke, isTauri } from "@tauri-apps/api/core"
+import type { Session } from "@opencode-ai/sdk"
+import { useMarked, useSDK, useSync } from "@/context"
+import { Icon, IconButton, Tooltip } from "@/ui"
+import { exportExtension, toHTML, toJSON, toMarkdown, type ExportFormat, type SessionExport } from "@/utils/export"
+
+const formats: { format: ExportFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown" },
+  { format: "html", label: "HTML" },
+  { format: "json", label: "JSON" },
+]
+
+async function write(filename: string, format: ExportFormat, contents: string) {
+  if (!isTauri()) {
+    // plain browser, let it download the file instead
+    const url = URL.createObjectURL(new Blob([contents], { type: "text/plain" }))
+    const a = document.createElement("a")
+    a.href = url
+    a.download = filename
+    a.click()
+    URL.revokeObjectURL(url)
+    return
+  }
+  // the desktop app asks where to save and writes the file itself
+  await invoke("export_save", {
+    filename,
+    label: formats.find((x) => x.format === format)!.label,
+    extension: exportExtension[format],
+    contents,
+  })
+}
+
+export default function SessionActions(props: { session: Session }) {
+  const sdk = useSDK()
+  const sync = useSync()
+  const marked = useMarked()
+  const [copied, setCopied] = createSignal(false)
+  const [error, setError] = createSignal<string>()
+
+  const fail = (e: unknown) => setError(e instanceof Error ? e.message : String(e))
+
+  const copy = async (url: string) => {
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const toggleShare = async () => {
+    setError(undefined)
+    if (props.session.share) {
+      await sdk.session.unshare({ path: { id: props.session.id }, throwOnError: true }).catch(fail)
+      return
+    }
+    await sdk.session
+      .share({ path: { id: props.session.id }, throwOnError: true })
+      .then((x) => x.data.share && copy(x.data.share.url))
+      .catch(fail)
+  }
+
+  const exportAs = async (format: ExportFormat) => {
+    setError(undefined)
+    const data: SessionExport = {
+      session: props.session,
+      messages: (sync.data.message[props.session.id] ?? []).map((info) => ({
+        info,
+        parts: sync.data.part[info.id] ?? [],
+      })),
+    }
+    const name = (props.session.title || props.session.id).replace(/[^\w-]+/g, "-").replace(/^-|-$/g, "")
+    try {
+      const contents =
+        format === "markdown" ? toMarkdown(data) : format === "html" ? await toHTML(data, marked) : toJSON(data)
+      await write(`${name || "session"}.${exportExtension[format]}`, format, contents)
+    } catch (e) {
+      fail(e)
+    }
+  }
+
+  return (
+    <div class="ml-auto flex items-center gap-1 shrink-0">
+      <Show when={error()}>
+        <Tooltip value={error()!} placement="bottom">
+          <Icon name="warning" size={14} class="text-error" />
+        </Tooltip>
+      </Show>
+      <Show when={props.session.share?.url}>
+        {(url) => (
+          <Tooltip value={copied() ? "Copied" : `Copy share link ${url()}`} placement="bottom">
+            <IconButton size="xs" variant="ghost" class="text-text-muted hover:text-text" onClick={() => copy(url())}>
+              <Icon name={copied() ? "checkmark" : "link"} size={14} />
+            </IconButton>
+          </Tooltip>
+        )}
+      </Show>
+      <Tooltip value={props.session.share ? "Stop sharing" : "Share and copy link"} placement="bottom">
+        <IconButton
+          size="xs"
+          variant="ghost"
+          classList={{
+            "text-text-muted hover:text-text": !props.session.share,
+            "text-primary": !!props.session.share,
+          }}
+          onClick={toggleShare}
+        >
+          <Icon name="share" size={14} />
+        </IconButton>
+      </Tooltip>
+      <DropdownMenu>
+        <Tooltip value="Export session" placement="bottom">
+          <DropdownMenu.Trigger as={IconButton} size="xs" variant="ghost" class="text-text-muted hover:text-text">
+            <Icon name="file-text" size={14} />
+          </DropdownMenu.Trigger>
+        </Tooltip>
+        <DropdownMenu.Portal>
+          <DropdownMenu.Content
+            class="min-w-32 overflow-hidden rounded-md border border-border-subtle/40 bg-background-panel p-1
+                   shadow-md z-50"
+          >
+            <For each={formats}>
+              {(item) => (
+                <DropdownMenu.Item
+                  class="rounded-sm px-2 py-1 text-xs text-text outline-none cursor-pointer select-none
+                         data-[highlighted]:bg-background-element"
+                  onSelect={() => exportAs(item.format)}
+                >
+                  Export as {item.label}
+                </DropdownMenu.Item>
+              )}
+            </For>
+          </DropdownMenu.Content>
+        </DropdownMenu.Portal>
+      </DropdownMenu>
+    </div>
+  )
+}
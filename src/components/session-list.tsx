@@ -1,28 +1,322 @@
-import { useSync, useLocal } from "@/context"
-import { Button, Tooltip } from "@/ui"
+import { useSync, useLocal, useSDK } from "@/context"
+import { Button, Icon, IconButton, Tooltip } from "@/ui"
 import { VList } from "virtua/solid"
+import { ContextMenu } from "@kobalte/core/context-menu"
+import { createEffect, createMemo, Match, Show, Switch, type ParentProps } from "solid-js"
+import { createStore } from "solid-js/store"
+import { DateTime } from "luxon"
+import type { Session, TextPart, UserMessage } from "@opencode-ai/sdk"
+import { SelectDialog } from "@/components/select-dialog"
+import { ConfirmDialog } from "@/components/confirm-dialog"
+
+type Row = { type: "group"; label: string } | { type: "session"; session: Session; depth: number }
+
+function group(time: number) {
+  const days = DateTime.now().startOf("day").diff(DateTime.fromMillis(time).startOf("day"), "days").days
+  if (days < 1) return "Today"
+  if (days < 2) return "Yesterday"
+  if (days < 7) return "Last week"
+  if (days < 30) return "Last month"
+  return DateTime.fromMillis(time).toFormat("LLLL yyyy")
+}
+
+const textOf = (parts: { type: string }[]) =>
+  parts
+    .filter((part): part is TextPart => part.type === "text")
+    .map((part) => part.text)
+    .join("\n")
 
 export default function SessionList() {
+  const sdk = useSDK()
   const sync = useSync()
   const local = useLocal()
+  const [store, setStore] = createStore({
+    expanded: {} as Record<string, boolean>,
+    query: "",
+    // message text of sessions that were never opened, fetched the first time something is searched
+    text: {} as Record<string, string>,
+    indexing: false,
+    renaming: undefined as string | undefined,
+    fork: undefined as Session | undefined,
+    remove: undefined as Session | undefined,
+    error: undefined as string | undefined,
+  })
+
+  const fail = (e: unknown) => setStore("error", e instanceof Error ? e.message : JSON.stringify(e))
+
+  createEffect(async () => {
+    if (!store.query || store.indexing) return
+    const missing = sync.data.session.filter((s) => !sync.data.message[s.id] && store.text[s.id] === undefined)
+    if (!missing.length) return
+    setStore("indexing", true)
+    // a few at a time so a long history doesn't flood the server
+    for (let i = 0; i < missing.length; i += 4) {
+      await Promise.all(
+        missing.slice(i, i + 4).map((session) =>
+          sdk.session
+            .messages({ path: { id: session.id } })
+            .then((x) => setStore("text", session.id, textOf((x.data ?? []).flatMap((m) => m.parts)).toLowerCase()))
+            .catch(() => setStore("text", session.id, "")),
+        ),
+      )
+    }
+    setStore("indexing", false)
+  })
+
+  const matches = (session: Session, query: string) => {
+    if (session.title.toLowerCase().includes(query)) return true
+    const messages = sync.data.message[session.id]
+    if (!messages) return store.text[session.id]?.includes(query) ?? false
+    return textOf(messages.flatMap((m) => sync.data.part[m.id] ?? []))
+      .toLowerCase()
+      .includes(query)
+  }
+
+  const children = createMemo(() => {
+    const result: Record<string, Session[]> = {}
+    for (const session of sync.data.session) {
+      if (!session.parentID) continue
+      result[session.parentID] = [...(result[session.parentID] ?? []), session]
+    }
+    return result
+  })
+
+  // flattened tree, subagent sessions are listed under their parent when it's expanded. search results are flat
+  const rows = createMemo(() => {
+    const query = store.query.trim().toLowerCase()
+    const sessions = query
+      ? sync.data.session.filter((session) => matches(session, query))
+      : sync.data.session.filter((session) => !session.parentID || !sync.session.get(session.parentID))
+    const result: Row[] = []
+    const visit = (session: Session, depth: number) => {
+      result.push({ type: "session", session, depth })
+      if (query || !store.expanded[session.id]) return
+      for (const child of children()[session.id] ?? []) visit(child, depth + 1)
+    }
+    let last: string | undefined
+    for (const session of sessions.slice().sort((a, b) => b.time.updated - a.time.updated)) {
+      const label = group(session.time.updated)
+      if (label !== last) result.push({ type: "group", label })
+      last = label
+      visit(session, 0)
+    }
+    return result
+  })
+
+  const create = async () => {
+    try {
+      const session = await sdk.session.create({ throwOnError: true }).then((x) => x.data)
+      local.session.setActive(session.id)
+    } catch (e) {
+      fail(e)
+    }
+  }
+
+  const rename = async (session: Session, title: string) => {
+    setStore("renaming", undefined)
+    if (!title.trim() || title === session.title) return
+    await sdk.session
+      .update({ path: { id: session.id }, body: { title: title.trim() }, throwOnError: true })
+      .catch(fail)
+  }
+
+  const remove = async (session: Session) => {
+    await sdk.session.delete({ path: { id: session.id }, throwOnError: true }).catch(fail)
+  }
+
+  // the fork keeps the chosen message and its answer, so it's cut before the next user message
+  const fork = async (session: Session, message: UserMessage) => {
+    const messages = sync.data.message[session.id] ?? []
+    const next = messages.find((m) => m.role === "user" && m.id > message.id)
+    try {
+      const forked = await sync.session.fork(session.id, next?.id)
+      local.session.setActive(forked.id)
+    } catch (e) {
+      fail(e)
+    }
+  }
+
+  const prompts = async (session: Session) => {
+    if (!sync.data.message[session.id]) await sync.session.sync(session.id)
+    return (sync.data.message[session.id] ?? [])
+      .filter((m): m is UserMessage => m.role === "user")
+      .map((message) => ({ message, text: textOf(sync.data.part[message.id] ?? []) }))
+      .reverse()
+  }
+
+  return (
+    <div class="h-full flex flex-col">
+      <div class="p-2 flex items-center gap-2 border-b border-border-subtle/30">
+        <div class="relative grow min-w-0">
+          <input
+            type="text"
+            value={store.query}
+            onInput={(e) => setStore("query", e.currentTarget.value)}
+            onKeyDown={(e) => e.key === "Escape" && setStore("query", "")}
+            placeholder="Search sessions"
+            class="w-full px-2 py-1 rounded-md bg-background-panel ring-1 ring-border-subtle/60
+                   text-xs text-text placeholder-text-muted/70 focus:outline-none focus:ring-border-active"
+            spellcheck={false}
+          />
+          <Show when={store.indexing}>
+            <Icon
+              name="loading"
+              size={12}
+              class="absolute right-2 top-1/2 -translate-y-1/2 text-text-muted animate-spin"
+            />
+          </Show>
+        </div>
+        <Button size="sm" variant="secondary" class="shrink-0 gap-1 pr-2" onClick={create}>
+          <Icon name="plus" size={12} />
+          New session
+        </Button>
+      </div>
+      <Show when={store.error}>
+        <div class="mx-2 mt-2 px-2 py-1 flex items-center gap-2 rounded-md bg-error/10 text-xs text-error">
+          <span class="grow min-w-0 break-words">{store.error}</span>
+          <IconButton size="xs" variant="ghost" class="text-error" onClick={() => setStore("error", undefined)}>
+            <Icon name="close" size={12} />
+          </IconButton>
+        </div>
+      </Show>
+      <Show when={store.query && !rows().length}>
+        <div class="p-4 text-center text-xs text-text-muted">
+          {store.indexing ? "Searching..." : "No sessions match"}
+        </div>
+      </Show>
+      <VList data={rows()} class="p-2 grow min-h-0">
+        {(row) => (
+          <Switch>
+            <Match when={row.type === "group" && row}>
+              {(row) => (
+                <div class="px-2 pt-3 pb-1 text-xs uppercase text-text-muted/60 font-light">{row().label}</div>
+              )}
+            </Match>
+            <Match when={row.type === "session" && row}>
+              {(row) => (
+                <SessionMenu
+                  onRename={() => setStore("renaming", row().session.id)}
+                  onFork={() => setStore("fork", row().session)}
+                  onDelete={() => setStore("remove", row().session)}
+                >
+                  <div class="flex items-center min-w-0" style={{ "padding-left": `${row().depth * 12}px` }}>
+                    <Show
+                      when={!store.query && children()[row().session.id]?.length}
+                      fallback={<div class="size-6 shrink-0" />}
+                    >
+                      <IconButton
+                        size="xs"
+                        variant="ghost"
+                        class="shrink-0 text-text-muted"
+                        onClick={() => setStore("expanded", row().session.id, (x) => !x)}
+                      >
+                        <Icon name={store.expanded[row().session.id] ? "chevron-down" : "chevron-right"} size={14} />
+                      </IconButton>
+                    </Show>
+                    <Show
+                      when={store.renaming === row().session.id}
+                      fallback={
+                        <Tooltip placement="right" value={row().session.title} class="grow min-w-0">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            classList={{
+                              "w-full min-w-0 py-1 text-left truncate justify-start text-text-muted text-xs": true,
+                              "text-text!": local.session.active()?.id === row().session.id,
+                            }}
+                            onClick={() => local.session.setActive(row().session.id)}
+                          >
+                            <span class="truncate">{row().session.title}</span>
+                            <Show when={sync.data.permission[row().session.id]?.length}>
+                              <Icon name="lock" size={12} class="ml-auto shrink-0 text-warning" />
+                            </Show>
+                          </Button>
+                        </Tooltip>
+                      }
+                    >
+                      <input
+                        ref={(el) => queueMicrotask(() => el.select())}
+                        type="text"
+                        value={row().session.title}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") rename(row().session, e.currentTarget.value)
+                          if (e.key === "Escape") setStore("renaming", undefined)
+                        }}
+                        onBlur={(e) => rename(row().session, e.currentTarget.value)}
+                        class="grow min-w-0 h-6 px-2 rounded-md bg-background-panel ring-1 ring-border-active
+                               text-xs text-text focus:outline-none"
+                        spellcheck={false}
+                      />
+                    </Show>
+                  </div>
+                </SessionMenu>
+              )}
+            </Match>
+          </Switch>
+        )}
+      </VList>
+      <Show when={store.fork} keyed>
+        {(session) => (
+          <SelectDialog
+            items={() => prompts(session)}
+            key={(x) => x.message.id}
+            filter={["text"]}
+            placeholder="Fork from message..."
+            render={(x) => (
+              <div class="w-full flex items-center gap-2 min-w-0">
+                <span class="grow min-w-0 truncate text-xs text-text">{x.text || "(no text)"}</span>
+                <span class="shrink-0 text-xs text-text-muted">
+                  {DateTime.fromMillis(x.message.time.created).toRelative()}
+                </span>
+              </div>
+            )}
+            onSelect={(x) => x && fork(session, x.message)}
+            onClose={() => setStore("fork", undefined)}
+          />
+        )}
+      </Show>
+      <Show when={store.remove} keyed>
+        {(session) => (
+          <ConfirmDialog
+            title={`Delete "${session.title}"?`}
+            description="The session, its messages and its subagent sessions are deleted. This can't be undone."
+            confirm="Delete"
+            destructive
+            onConfirm={() => remove(session)}
+            onClose={() => setStore("remove", undefined)}
+          />
+        )}
+      </Show>
+    </div>
+  )
+}
 
+function SessionMenu(props: ParentProps<{ onRename: () => void; onFork: () => void; onDelete: () => void }>) {
+  const item = "flex items-center gap-2 rounded-sm px-2 py-1 text-xs outline-none cursor-pointer select-none"
+  const normal = `${item} text-text data-[highlighted]:bg-background-element`
   return (
-    <VList data={sync.data.session} class="p-2">
-      {(session) => (
-        <Tooltip placement="right" value={session.title} class="w-full min-w-0">
-          <Button
-            size="sm"
-            variant="ghost"
-            classList={{
-              "w-full min-w-0 py-1 text-left truncate justify-start text-text-muted text-xs": true,
-              "text-text!": local.session.active()?.id === session.id,
-            }}
-            onClick={() => local.session.setActive(session.id)}
-          >
-            <span class="truncate">{session.title}</span>
-          </Button>
-        </Tooltip>
-      )}
-    </VList>
+    <ContextMenu>
+      <ContextMenu.Trigger>{props.children}</ContextMenu.Trigger>
+      <ContextMenu.Portal>
+        <ContextMenu.Content
+          class="min-w-40 overflow-hidden rounded-md border border-border-subtle/40 bg-background-panel p-1
+                 shadow-md z-50"
+        >
+          <ContextMenu.Item class={normal} onSelect={props.onRename}>
+            <Icon name="pencil" size={12} />
+            Rename
+          </ContextMenu.Item>
+          <ContextMenu.Item class={normal} onSelect={props.onFork}>
+            <Icon name="copy" size={12} />
+            Fork from message...
+          </ContextMenu.Item>
+          <ContextMenu.Separator class="my-1 border-border-subtle/40" />
+          <ContextMenu.Item class={`${item} text-error data-[highlighted]:bg-error/10`} onSelect={props.onDelete}>
+            <Icon name="trash" size={12} />
+            Delete
+          </ContextMenu.Item>
+        </ContextMenu.Content>
+      </ContextMenu.Portal>
+    </ContextMenu>
   )
 }
@@ -1,25 +1,39 @@
-import { useLocal, useSync } from "@/context"
-import { Collapsible, Icon } from "@/ui"
-import type { Part, ToolPart } from "@opencode-ai/sdk"
+import { useLocal, useSDK, useSync } from "@/context"
+import { Button, Collapsible, FileIcon, Icon, Tooltip } from "@/ui"
+import type {
+  AssistantMessage,
+  Message,
+  PatchPart,
+  Part,
+  Permission,
+  ToolPart,
+  ToolStateCompleted,
+} from "@opencode-ai/sdk"
 import { DateTime } from "luxon"
 import {
   createSignal,
-  onMount,
+  on,
   For,
   Match,
   splitProps,
   Switch,
   type ComponentProps,
+  type JSX,
   type ParentProps,
   createEffect,
   createMemo,
+  onCleanup,
+  onMount,
   Show,
 } from "solid-js"
 import { getFilename } from "@/utils"
 import { Markdown } from "./markdown"
 import { Code } from "./code"
 import { createElementSize } from "@solid-primitives/resize-observer"
-import { createScrollPosition } from "@solid-primitives/scroll"
+import { VList, type VListHandle } from "virtua/solid"
+import type { CacheSnapshot } from "virtua"
+import { ConfirmDialog } from "./confirm-dialog"
+import { MessageUsage } from "./session-usage"
 
 function Part(props: ParentProps & ComponentProps<"div">) {
   const [local, others] = splitProps(props, ["class", "classList", "children"])
@@ -52,6 +66,39 @@ function CollapsiblePart(props: { title: ParentProps["children"] } & ParentProps
   )
 }
 
+function PermissionPrompt(props: { permission: Permission }) {
+  const sync = useSync()
+  const [pending, setPending] = createSignal(false)
+  const pattern = () => [props.permission.pattern ?? []].flat().join(", ")
+  // the prompt is removed by the permission.replied event, not here
+  const respond = async (response: "once" | "always" | "reject") => {
+    setPending(true)
+    await sync.permission.respond(props.permission, response)
+    setPending(false)
+  }
+  return (
+    <div class="my-1 p-2 flex flex-col gap-2 rounded-md ring-1 ring-inset ring-warning/40 bg-background-panel">
+      <div class="flex items-center gap-1.5 text-xs text-text">
+        <Icon name="lock" size={14} class="shrink-0 text-warning" />
+        <span class="min-w-0 break-words">{sync.sanitize(props.permission.title)}</span>
+      </div>
+      <div class="flex items-center gap-1">
+        <Button variant="primary" class="pr-2" disabled={pending()} onClick={() => respond("once")}>
+          Allow
+        </Button>
+        <Tooltip value={pattern() ? `Allow ${pattern()} for this session` : "Allow for this session"}>
+          <Button class="pr-2" disabled={pending()} onClick={() => respond("always")}>
+            Always allow
+          </Button>
+        </Tooltip>
+        <Button variant="ghost" class="pr-2 text-error!" disabled={pending()} onClick={() => respond("reject")}>
+          Reject
+        </Button>
+      </div>
+    </div>
+  )
+}
+
 function ReadToolPart(props: { part: ToolPart }) {
   const sync = useSync()
   const local = useLocal()
@@ -142,7 +189,11 @@ function WriteToolPart(props: { part: ToolPart }) {
               </>
             }
           >
-            <div class="p-2 bg-background-panel rounded-md border border-border-subtle"></div>
+            <Code
+              path={state().input["filePath"] as string}
+              code={state().input["content"] as string}
+              class="[&_code]:pb-0!"
+            />
           </CollapsiblePart>
         )}
       </Match>
@@ -198,20 +249,394 @@ function BashToolPart(props: { part: ToolPart }) {
   )
 }
 
+// shared by the tools that don't need anything special while running or on error
+function ToolStatus(props: { part: ToolPart; pending: string; title: JSX.Element; children: JSX.Element }) {
+  const sync = useSync()
+  return (
+    <Switch>
+      <Match when={props.part.state.status === "pending" || props.part.state.status === "running"}>
+        <Part>{props.pending}</Part>
+      </Match>
+      <Match when={props.part.state.status === "completed"}>{props.children}</Match>
+      <Match when={props.part.state.status === "error" && props.part.state}>
+        {(state) => (
+          <div>
+            <Part>{props.title}</Part>
+            <div class="text-error">{sync.sanitize(state().error)}</div>
+          </div>
+        )}
+      </Match>
+    </Switch>
+  )
+}
+
+// completed state of a tool, only called from inside ToolStatus's completed branch
+const completed = (part: ToolPart) => part.state as ToolStateCompleted
+// the input is only known once the tool starts running
+const input = (part: ToolPart) => ("input" in part.state ? (part.state.input as Record<string, unknown>) : {})
+
+function parseGrep(output: string) {
+  const files: { path: string; matches: { line: number; text: string }[] }[] = []
+  for (const line of output.split("\n")) {
+    const match = line.match(/^\s+Line (\d+): (.*)$/)
+    if (match) {
+      files[files.length - 1]?.matches.push({ line: Number(match[1]), text: match[2] })
+      continue
+    }
+    if (line.endsWith(":") && !line.startsWith(" ")) files.push({ path: line.slice(0, -1), matches: [] })
+  }
+  return files
+}
+
+function GrepToolPart(props: { part: ToolPart }) {
+  const sync = useSync()
+  const local = useLocal()
+  const title = () => (
+    <>
+      <span class="text-text-muted">Search</span> {input(props.part)["pattern"] as string}
+    </>
+  )
+  return (
+    <ToolStatus part={props.part} pending="Searching..." title={title()}>
+      {(() => {
+        const files = parseGrep(completed(props.part).output)
+        const count = files.reduce((sum, file) => sum + file.matches.length, 0)
+        return (
+          <CollapsiblePart
+            title={
+              <>
+                {title()} <span class="text-text-muted/40">({count} matches)</span>
+              </>
+            }
+          >
+            <ul class="flex flex-col gap-1">
+              <For each={files}>
+                {(file) => (
+                  <li>
+                    <button
+                      class="flex items-center gap-1 cursor-pointer hover:text-text"
+                      onClick={() => local.file.open(file.path)}
+                    >
+                      <FileIcon node={{ path: file.path, type: "file" }} class="size-3" />
+                      {sync.sanitize(file.path)}
+                    </button>
+                    <ul class="pl-4">
+                      <For each={file.matches}>
+                        {(match) => (
+                          <li
+                            class="flex gap-2 cursor-pointer hover:text-text"
+                            onClick={() => local.file.open(file.path)}
+                          >
+                            <span class="shrink-0 w-8 text-right text-text-muted/40">{match.line}</span>
+                            <span class="truncate font-mono">{match.text}</span>
+                          </li>
+                        )}
+                      </For>
+                    </ul>
+                  </li>
+                )}
+              </For>
+            </ul>
+          </CollapsiblePart>
+        )
+      })()}
+    </ToolStatus>
+  )
+}
+
+function GlobToolPart(props: { part: ToolPart }) {
+  const sync = useSync()
+  const local = useLocal()
+  const title = () => (
+    <>
+      <span class="text-text-muted">Find</span> {input(props.part)["pattern"] as string}
+    </>
+  )
+  return (
+    <ToolStatus part={props.part} pending="Finding files..." title={title()}>
+      {(() => {
+        // the output ends with a note in parentheses when truncated
+        const paths = completed(props.part)
+          .output.split("\n")
+          .filter((x) => x.startsWith("/"))
+        return (
+          <CollapsiblePart
+            title={
+              <>
+                {title()} <span class="text-text-muted/40">({paths.length} files)</span>
+              </>
+            }
+          >
+            <ul class="flex flex-col">
+              <For each={paths}>
+                {(path) => (
+                  <li>
+                    <button
+                      class="flex items-center gap-1 cursor-pointer hover:text-text"
+                      onClick={() => local.file.open(path)}
+                    >
+                      <FileIcon node={{ path, type: "file" }} class="size-3" />
+                      {sync.sanitize(path)}
+                    </button>
+                  </li>
+                )}
+              </For>
+            </ul>
+          </CollapsiblePart>
+        )
+      })()}
+    </ToolStatus>
+  )
+}
+
+function ListToolPart(props: { part: ToolPart }) {
+  const sync = useSync()
+  const title = () => (
+    <>
+      <span class="text-text-muted">List</span> {sync.sanitize((input(props.part)["path"] as string) ?? "") || "."}
+    </>
+  )
+  return (
+    <ToolStatus part={props.part} pending="Listing directory..." title={title()}>
+      {(() => {
+        // first line is the listed directory, then two spaces of indent per level and a trailing / for directories
+        const entries = completed(props.part)
+          .output.split("\n")
+          .slice(1)
+          .filter((x) => x.trim())
+          .map((line) => {
+            const name = line.trimStart()
+            return {
+              depth: (line.length - name.length) / 2,
+              name: name.replace(/\/$/, ""),
+              type: name.endsWith("/") ? ("directory" as const) : ("file" as const),
+            }
+          })
+        return (
+          <CollapsiblePart title={title()}>
+            <ul class="flex flex-col">
+              <For each={entries}>
+                {(entry) => (
+                  <li class="flex items-center gap-1" style={{ "padding-left": `${entry.depth * 12}px` }}>
+                    <FileIcon node={{ path: entry.name, type: entry.type }} class="size-3" />
+                    {entry.name}
+                  </li>
+                )}
+              </For>
+            </ul>
+          </CollapsiblePart>
+        )
+      })()}
+    </ToolStatus>
+  )
+}
+
+type Todo = { id: string; content: string; status: "pending" | "in_progress" | "completed" | "cancelled" }
+
+function TodoToolPart(props: { part: ToolPart }) {
+  const title = () => (
+    <span class="text-text-muted">{props.part.tool === "todowrite" ? "Update todos" : "Read todos"}</span>
+  )
+  return (
+    <ToolStatus part={props.part} pending="Updating todos..." title={title()}>
+      {(() => {
+        const todos = (completed(props.part).metadata["todos"] as Todo[] | undefined) ?? []
+        return (
+          <CollapsiblePart defaultOpen={props.part.tool === "todowrite"} title={title()}>
+            <ul class="flex flex-col">
+              <For each={todos}>
+                {(todo) => (
+                  <li
+                    classList={{
+                      "flex items-start gap-1.5": true,
+                      "text-text": todo.status === "in_progress",
+                      "line-through text-text-muted/40": todo.status === "cancelled",
+                    }}
+                  >
+                    <Switch fallback={<Icon name="square" size={14} class="shrink-0" />}>
+                      <Match when={todo.status === "completed"}>
+                        <Icon name="checkmark-square" size={14} class="shrink-0 text-success" />
+                      </Match>
+                      <Match when={todo.status === "in_progress"}>
+                        <Icon name="circle-dotted" size={14} class="shrink-0 text-warning" />
+                      </Match>
+                    </Switch>
+                    <span>{todo.content}</span>
+                  </li>
+                )}
+              </For>
+            </ul>
+          </CollapsiblePart>
+        )
+      })()}
+    </ToolStatus>
+  )
+}
+
+function WebFetchToolPart(props: { part: ToolPart }) {
+  const url = () => input(props.part)["url"] as string
+  const title = () => (
+    <>
+      <span class="text-text-muted">Fetch</span> {url()}
+    </>
+  )
+  return (
+    <ToolStatus part={props.part} pending="Fetching..." title={title()}>
+      {(() => {
+        const state = completed(props.part)
+        const format = state.input["format"] as string | undefined
+        return (
+          <CollapsiblePart title={title()}>
+            <div class="flex flex-col gap-1">
+              <a href={url()} target="_blank" class="truncate text-primary hover:underline">
+                {state.title || url()}
+              </a>
+              <span class="text-text-muted/40">{state.output.length.toLocaleString()} characters</span>
+              <Switch fallback={<pre class="whitespace-pre-wrap break-words line-clamp-12">{state.output}</pre>}>
+                <Match when={format === "markdown"}>
+                  <Markdown text={state.output.slice(0, 2000)} />
+                </Match>
+              </Switch>
+            </div>
+          </CollapsiblePart>
+        )
+      })()}
+    </ToolStatus>
+  )
+}
+
+function WebSearchToolPart(props: { part: ToolPart }) {
+  const title = () => (
+    <>
+      <span class="text-text-muted">Web search</span> {input(props.part)["query"] as string}
+    </>
+  )
+  return (
+    <ToolStatus part={props.part} pending="Searching the web..." title={title()}>
+      <CollapsiblePart title={title()}>
+        <Markdown text={completed(props.part).output} />
+      </CollapsiblePart>
+    </ToolStatus>
+  )
+}
+
+function PatchToolPart(props: { part: ToolPart }) {
+  const title = () => <span class="text-text-muted">Patch</span>
+  return (
+    <ToolStatus part={props.part} pending="Preparing patch..." title={title()}>
+      {(() => {
+        const state = completed(props.part)
+        return (
+          <CollapsiblePart defaultOpen title={title()}>
+            <Code
+              path="patch.diff"
+              code={(state.metadata["diff"] as string | undefined) ?? (state.input["patchText"] as string)}
+              class="[&_code]:pb-0!"
+            />
+          </CollapsiblePart>
+        )
+      })()}
+    </ToolStatus>
+  )
+}
+
+// what the task tool reports about the tool calls of its child session
+type TaskSummary = { id: string; tool: string; state: { status: ToolPart["state"]["status"]; title?: string } }
+
+function TaskToolPart(props: { part: ToolPart }) {
+  const sync = useSync()
+  const local = useLocal()
+  const metadata = () => ("metadata" in props.part.state ? props.part.state.metadata : undefined) ?? {}
+  const summary = () => (metadata()["summary"] as TaskSummary[] | undefined) ?? []
+  const done = () => summary().filter((x) => x.state.status === "completed" || x.state.status === "error").length
+  // the session id is only reported once the task finishes, until then take the first child started after it
+  const child = createMemo(() => {
+    const id = metadata()["sessionId"] as string | undefined
+    if (id) return sync.session.get(id)
+    if (!("time" in props.part.state)) return undefined
+    const start = props.part.state.time.start
+    return sync.data.session
+      .filter((x) => x.parentID === props.part.sessionID && x.time.created >= start)
+      .sort((a, b) => a.time.created - b.time.created)[0]
+  })
+  const title = () => (
+    <>
+      <span class="text-text-muted">Task</span>{" "}
+      <span class="text-secondary">{input(props.part)["subagent_type"] as string}</span>{" "}
+      {input(props.part)["description"] as string}
+    </>
+  )
+  return (
+    <Switch>
+      <Match when={props.part.state.status === "pending"}>
+        <Part>Delegating task...</Part>
+      </Match>
+      <Match when={props.part.state.status === "running" || props.part.state.status === "completed"}>
+        <CollapsiblePart
+          defaultOpen={props.part.state.status === "running"}
+          title={
+            <>
+              {title()}{" "}
+              <span class="text-text-muted/40">({done()}/{summary().length} tool calls)</span>
+            </>
+          }
+        >
+          <div class="flex flex-col gap-1">
+            <Show when={summary().length > 5}>
+              <span class="text-text-muted/40">{summary().length - 5} earlier tool calls</span>
+            </Show>
+            <ul class="flex flex-col">
+              <For each={summary().slice(-5)}>
+                {(item) => (
+                  <li class="flex items-center gap-1.5">
+                    <Switch fallback={<Icon name="loading" size={12} class="shrink-0 animate-spin" />}>
+                      <Match when={item.state.status === "completed"}>
+                        <Icon name="checkmark" size={12} class="shrink-0 text-success" />
+                      </Match>
+                      <Match when={item.state.status === "error"}>
+                        <Icon name="close" size={12} class="shrink-0 text-error" />
+                      </Match>
+                    </Switch>
+                    <span class="text-text-muted">{item.tool}</span>
+                    <span class="truncate">{sync.sanitize(item.state.title ?? "")}</span>
+                  </li>
+                )}
+              </For>
+            </ul>
+            <Show when={child()}>
+              {(child) => (
+                <button
+                  class="self-start flex items-center gap-1 cursor-pointer text-primary hover:underline"
+                  onClick={() => local.session.setActive(child().id)}
+                >
+                  Open subagent session
+                  <Icon name="arrow-right" size={12} />
+                </button>
+              )}
+            </Show>
+            <Show when={props.part.state.status === "completed"}>
+              <Markdown text={completed(props.part).output} />
+            </Show>
+          </div>
+        </CollapsiblePart>
+      </Match>
+      <Match when={props.part.state.status === "error" && props.part.state}>
+        {(state) => (
+          <div>
+            <Part>{title()}</Part>
+            <div class="text-error">{sync.sanitize(state().error)}</div>
+          </div>
+        )}
+      </Match>
+    </Switch>
+  )
+}
+
 function ToolPart(props: { part: ToolPart }) {
-  // read
-  // edit
-  // write
-  // bash
-  // ls
-  // glob
-  // grep
-  // todowrite
-  // todoread
-  // webfetch
-  // websearch
-  // patch
-  // task
+  const sync = useSync()
+  const permissions = createMemo(() =>
+    (sync.data.permission[props.part.sessionID] ?? []).filter((x) => x.callID === props.part.callID),
+  )
   return (
     <div class="min-w-0 flex-auto text-xs">
       <Switch
@@ -233,164 +658,352 @@ function ToolPart(props: { part: ToolPart }) {
         <Match when={props.part.tool === "bash"}>
           <BashToolPart part={props.part} />
         </Match>
+        <Match when={props.part.tool === "grep"}>
+          <GrepToolPart part={props.part} />
+        </Match>
+        <Match when={props.part.tool === "glob"}>
+          <GlobToolPart part={props.part} />
+        </Match>
+        <Match when={props.part.tool === "list" || props.part.tool === "ls"}>
+          <ListToolPart part={props.part} />
+        </Match>
+        <Match when={props.part.tool === "todowrite" || props.part.tool === "todoread"}>
+          <TodoToolPart part={props.part} />
+        </Match>
+        <Match when={props.part.tool === "webfetch"}>
+          <WebFetchToolPart part={props.part} />
+        </Match>
+        <Match when={props.part.tool === "websearch"}>
+          <WebSearchToolPart part={props.part} />
+        </Match>
+        <Match when={props.part.tool === "patch"}>
+          <PatchToolPart part={props.part} />
+        </Match>
+        <Match when={props.part.tool === "task"}>
+          <TaskToolPart part={props.part} />
+        </Match>
       </Switch>
+      <For each={permissions()}>{(permission) => <PermissionPrompt permission={permission} />}</For>
     </div>
   )
 }
 
+type Row =
+  | { type: "revert"; message: Message }
+  | { type: "part"; message: Message; part: Part }
+  | { type: "usage"; message: AssistantMessage }
+  | { type: "error"; message: AssistantMessage }
+  | { type: "permission"; permission: Permission }
+
+// where each session was left, so switching back doesn't jump to the top
+const positions = new Map<string, { offset: number; tail: boolean; cache: CacheSnapshot; length: number }>()
+
+const valid = (part: Part) => {
+  if (!part) return false
+  switch (part.type) {
+    case "step-start":
+    case "step-finish":
+    case "file":
+    case "patch":
+      return false
+    case "text":
+      return !part.synthetic
+    case "reasoning":
+      return part.text.trim()
+    default:
+      return true
+  }
+}
+
+const duration = (part: Part) => {
+  switch (part.type) {
+    default:
+      if (
+        "time" in part &&
+        part.time &&
+        "start" in part.time &&
+        part.time.start &&
+        "end" in part.time &&
+        part.time.end
+      ) {
+        const start = DateTime.fromMillis(part.time.start)
+        const end = DateTime.fromMillis(part.time.end)
+        return end.diff(start).toFormat("s")
+      }
+      return ""
+  }
+}
+
 export default function SessionTimeline(props: { session: string; class?: string }) {
+  const sdk = useSDK()
   const sync = useSync()
-  const [scrollElement, setScrollElement] = createSignal<HTMLElement | undefined>(undefined)
-  const [root, setRoot] = createSignal<HTMLDivElement | undefined>(undefined)
+  const local = useLocal()
   const [tail, setTail] = createSignal(true)
-  const size = createElementSize(root)
-  const scroll = createScrollPosition(scrollElement)
+  const [last, setLast] = createSignal<HTMLElement>()
+  const lastSize = createElementSize(last)
+  let list: VListHandle | undefined
 
-  onMount(() => sync.session.sync(props.session))
+  // the same timeline is reused when moving between a session and its subagent sessions
+  createEffect(on(() => props.session, (session) => sync.session.sync(session)))
   const session = createMemo(() => sync.session.get(props.session))
   const messages = createMemo(() => sync.data.message[props.session] ?? [])
-  const working = createMemo(() => {
-    const last = messages()[messages().length - 1]
-    if (!last) return false
-    if (last.role === "user") return true
-    return !last.time.completed
-  })
+  const working = createMemo(() => sync.session.working(props.session))
+  const [reverting, setReverting] = createSignal<string | undefined>()
 
-  const getScrollParent = (el: HTMLElement | null): HTMLElement | undefined => {
-    let p = el?.parentElement
-    while (p && p !== document.body) {
-      const s = getComputedStyle(p)
-      if (s.overflowY === "auto" || s.overflowY === "scroll") return p
-      p = p.parentElement
-    }
-    return undefined
+  const reverted = (message: Message) => {
+    const revert = session()?.revert
+    return !!revert && message.id >= revert.messageID
   }
 
-  createEffect(() => {
-    if (!root()) return
-    setScrollElement(getScrollParent(root()!))
-  })
+  // files touched from this message onwards, which is what reverting to it restores
+  const restored = (messageID: string) => {
+    const files = messages()
+      .filter((message) => message.id >= messageID)
+      .flatMap((message) => sync.data.part[message.id] ?? [])
+      .filter((part): part is PatchPart => part.type === "patch")
+      .flatMap((part) => part.files)
+    return [...new Set(files.map(sync.sanitize))].sort()
+  }
 
-  const scrollToBottom = () => {
-    const element = scrollElement()
-    if (!element) return
-    element.scrollTop = element.scrollHeight
+  const revert = async (messageID: string) => {
+    await sdk.session.revert({ path: { id: props.session }, body: { messageID } })
+    local.file.refresh()
   }
 
-  createEffect(() => {
-    size.height
-    if (tail()) scrollToBottom()
+  const unrevert = async () => {
+    await sdk.session.unrevert({ path: { id: props.session } })
+    local.file.refresh()
+  }
+
+  // rows keep their identity between updates, otherwise the list would remount every row on each streamed delta
+  let cache = new Map<string, Row>()
+  const rows = createMemo(() => {
+    const next = new Map<string, Row>()
+    const result: Row[] = []
+    const add = (key: string, row: Row) => {
+      const previous = cache.get(key) as Record<string, unknown> | undefined
+      const same = previous && Object.entries(row).every(([field, value]) => previous[field] === value)
+      next.set(key, same ? (previous as Row) : row)
+      result.push(next.get(key)!)
+    }
+    for (const message of messages()) {
+      if (session()?.revert?.messageID === message.id) add("revert", { type: "revert", message })
+      for (const part of sync.data.part[message.id]?.filter(valid) ?? []) {
+        add(part.id, { type: "part", message, part })
+      }
+      if (message.role !== "assistant") continue
+      if (message.time.completed) add(`usage:${message.id}`, { type: "usage", message })
+      if (message.error) add(`error:${message.id}`, { type: "error", message })
+    }
+    // permissions that don't belong to a tool call
+    for (const permission of sync.data.permission[props.session]?.filter((x) => !x.callID) ?? []) {
+      add(permission.id, { type: "permission", permission })
+    }
+    cache = next
+    return result
   })
 
+  const scrollToBottom = () => list?.scrollToIndex(rows().length - 1, { align: "end" })
+
+  // stick to the bottom while the last row grows, unless the user scrolled up
   createEffect(() => {
-    if (working()) {
-      setTail(true)
-      scrollToBottom()
-    }
+    rows().length
+    lastSize.height
+    if (tail()) requestAnimationFrame(scrollToBottom)
   })
 
-  let lastScrollY = 0
   createEffect(() => {
-    if (scroll.y < lastScrollY) {
-      setTail(false)
+    if (working()) {
+      setTail(true)
+      requestAnimationFrame(scrollToBottom)
     }
-    lastScrollY = scroll.y
   })
 
-  const valid = (part: Part) => {
-    if (!part) return false
-    switch (part.type) {
-      case "step-start":
-      case "step-finish":
-      case "file":
-      case "patch":
-        return false
-      case "text":
-        return !part.synthetic
-      case "reasoning":
-        return part.text.trim()
-      default:
-        return true
-    }
+  let lastOffset = 0
+  const handleScroll = (offset: number) => {
+    if (!list) return
+    if (offset + list.viewportSize >= list.scrollSize - 16) setTail(true)
+    else if (offset < lastOffset) setTail(false)
+    lastOffset = offset
   }
 
-  const duration = (part: Part) => {
-    switch (part.type) {
-      default:
-        if (
-          "time" in part &&
-          part.time &&
-          "start" in part.time &&
-          part.time.start &&
-          "end" in part.time &&
-          part.time.end
-        ) {
-          const start = DateTime.fromMillis(part.time.start)
-          const end = DateTime.fromMillis(part.time.end)
-          return end.diff(start).toFormat("s")
-        }
-        return ""
-    }
-  }
+  const TimelineRow = (props: { row: Row; first: boolean; last: boolean }) => (
+    <div
+      ref={(el) => createEffect(() => props.last && setLast(el))}
+      classList={{
+        "group/li px-4 pb-1 select-text": true,
+        "pt-4": props.first,
+        "pb-4": props.last,
+        "opacity-50": "message" in props.row && reverted(props.row.message),
+      }}
+    >
+      <Switch>
+        <Match when={props.row.type === "revert"}>
+          <div class="mt-5 px-3 py-2 flex items-center gap-2 rounded-md bg-background-panel text-xs text-text-muted">
+            <Icon name="undo" size={12} />
+            <span class="grow">Reverted from here, sending a new prompt discards these messages</span>
+            <Button size="sm" variant="secondary" class="pr-2" onClick={unrevert}>
+              Unrevert
+            </Button>
+          </div>
+        </Match>
+        <Match when={props.row.type === "part" && props.row}>
+          {(row) => <PartRow message={row().message} part={row().part} first={props.first} />}
+        </Match>
+        <Match when={props.row.type === "usage" && props.row}>
+          {(row) => (
+            <div class="flex justify-end">
+              <MessageUsage message={row().message} />
+            </div>
+          )}
+        </Match>
+        <Match when={props.row.type === "error" && props.row.message.error}>
+          {(error) => (
+            <Switch fallback={<div class="text-xs text-error">{sync.sanitize(String(error().data.message))}</div>}>
+              <Match when={error().name === "MessageAbortedError"}>
+                <Part>
+                  <span class="flex items-center gap-1 text-warning">
+                    <Icon name="square" size={12} /> Interrupted
+                  </span>
+                </Part>
+              </Match>
+            </Switch>
+          )}
+        </Match>
+        <Match when={props.row.type === "permission" && props.row}>
+          {(row) => <PermissionPrompt permission={row().permission} />}
+        </Match>
+      </Switch>
+    </div>
+  )
+
+  const PartRow = (props: { message: Message; part: Part; first: boolean }) => (
+    <Switch fallback={<div class="flex-auto min-w-0 text-xs mt-1 text-left">{props.part.type}</div>}>
+      <Match when={props.part.type === "text" && props.part}>
+        {(part) => (
+          <Switch>
+            <Match when={props.message.role === "user"}>
+              <div
+                classList={{
+                  "w-full flex flex-col items-end justify-stretch gap-y-1.5 min-w-0": true,
+                  "mt-5": !props.first,
+                }}
+              >
+                <p class="w-full rounded-md p-3 ring-1 ring-text/15 ring-inset text-xs bg-background-panel">
+                  <span class="font-medium text-text whitespace-pre-wrap break-words">{part().text}</span>
+                </p>
+                <div class="flex items-center gap-2 text-xs text-text-muted">
+                  <Show when={!reverted(props.message) && !working()}>
+                    <button
+                      class="hidden group-hover/li:flex items-center gap-1 cursor-pointer hover:text-text"
+                      onClick={() => setReverting(props.message.id)}
+                    >
+                      <Icon name="undo" size={12} /> Revert to here
+                    </button>
+                  </Show>
+                  <span>
+                    {DateTime.fromMillis(props.message.time.created).toRelative()} ·{" "}
+                    {sync.data.config.username ?? "user"}
+                  </span>
+                </div>
+              </div>
+            </Match>
+            <Match when={props.message.role === "assistant" && props.message.summary}>
+              <div class="mt-5 p-3 rounded-md ring-1 ring-inset ring-primary/30 bg-primary/5">
+                <div class="flex items-center gap-1 text-xs text-primary">
+                  <Icon name="archive" size={12} /> Session compacted, the conversation continues from this summary
+                </div>
+                <Markdown text={sync.sanitize(part().text)} class="text-text mt-1" />
+              </div>
+            </Match>
+            <Match when={props.message.role === "assistant"}>
+              <Markdown text={sync.sanitize(part().text)} class="text-text mt-1" />
+            </Match>
+          </Switch>
+        )}
+      </Match>
+      <Match when={props.part.type === "reasoning" && props.part}>
+        {(part) => (
+          <CollapsiblePart
+            title={
+              <Switch fallback={<span class="text-text-muted">Thinking</span>}>
+                <Match when={part().time.end}>
+                  <span class="text-text-muted">Thought</span> for {duration(part())}s
+                </Match>
+              </Switch>
+            }
+          >
+            <Markdown text={part().text} />
+          </CollapsiblePart>
+        )}
+      </Match>
+      <Match when={props.part.type === "tool" && props.part}>{(part) => <ToolPart part={part()} />}</Match>
+    </Switch>
+  )
 
   return (
     <div
-      ref={setRoot}
       classList={{
-        "p-4 select-text flex flex-col gap-y-1": true,
+        "h-full min-h-0": true,
         [props.class ?? ""]: !!props.class,
       }}
     >
-      <ul role="list" class="flex flex-col gap-1">
-        <For each={messages()}>
-          {(message) => (
-            <For each={sync.data.part[message.id]?.filter(valid)}>
-              {(part) => (
-                <li class="group/li">
-                  <Switch fallback={<div class="flex-auto min-w-0 text-xs mt-1 text-left">{part.type}</div>}>
-                    <Match when={part.type === "text" && part}>
-                      {(part) => (
-                        <Switch>
-                          <Match when={message.role === "user"}>
-                            <div class="w-full flex flex-col items-end justify-stretch gap-y-1.5 min-w-0 mt-5 group-first/li:mt-0">
-                              <p class="w-full rounded-md p-3 ring-1 ring-text/15 ring-inset text-xs bg-background-panel">
-                                <span class="font-medium text-text whitespace-pre-wrap break-words">{part().text}</span>
-                              </p>
-                              <p class="text-xs text-text-muted">
-                                {DateTime.fromMillis(message.time.created).toRelative()} ·{" "}
-                                {sync.data.config.username ?? "user"}
-                              </p>
-                            </div>
-                          </Match>
-                          <Match when={message.role === "assistant"}>
-                            <Markdown text={sync.sanitize(part().text)} class="text-text mt-1" />
-                          </Match>
-                        </Switch>
-                      )}
-                    </Match>
-                    <Match when={part.type === "reasoning" && part}>
-                      {(part) => (
-                        <CollapsiblePart
-                          title={
-                            <Switch fallback={<span class="text-text-muted">Thinking</span>}>
-                              <Match when={part().time.end}>
-                                <span class="text-text-muted">Thought</span> for {duration(part())}s
-                              </Match>
-                            </Switch>
-                          }
-                        >
-                          <Markdown text={part().text} />
-                        </CollapsiblePart>
-                      )}
-                    </Match>
-                    <Match when={part.type === "tool" && part}>{(part) => <ToolPart part={part()} />}</Match>
-                  </Switch>
-                </li>
-              )}
-            </For>
-          )}
-        </For>
-      </ul>
+      {/* recreated per session so the measured sizes and scroll position can be restored */}
+      <Show when={props.session} keyed>
+        {(id) => {
+          const saved = positions.get(id)
+          setTail(saved?.tail ?? true)
+          onMount(() =>
+            requestAnimationFrame(() => {
+              if (saved && !saved.tail) list?.scrollTo(saved.offset)
+              else scrollToBottom()
+            }),
+          )
+          onCleanup(() => {
+            if (!list) return
+            positions.set(id, { offset: list.scrollOffset, tail: tail(), cache: list.cache, length: rows().length })
+          })
+          return (
+            <VList
+              ref={(handle) => (list = handle)}
+              data={rows()}
+              cache={saved?.length === rows().length ? saved.cache : undefined}
+              onScroll={handleScroll}
+              class="h-full"
+            >
+              {(row, index) => <TimelineRow row={row} first={index() === 0} last={index() === rows().length - 1} />}
+            </VList>
+          )
+        }}
+      </Show>
+      <Show when={reverting()}>
+        {(messageID) => (
+          <ConfirmDialog
+            title="Revert to this message?"
+            description={
+              restored(messageID()).length
+                ? "This message and everything after it are undone, and these files are restored:"
+                : "This message and everything after it are undone. No files were changed since."
+            }
+            confirm="Revert"
+            onConfirm={() => revert(messageID())}
+            onClose={() => setReverting(undefined)}
+          >
+            <Show when={restored(messageID()).length}>
+              <ul class="max-h-48 overflow-y-auto flex flex-col gap-1">
+                <For each={restored(messageID())}>
+                  {(path) => (
+                    <li class="flex items-center gap-2 text-xs text-text min-w-0">
+                      <FileIcon node={{ path, type: "file" }} class="shrink-0 size-4" />
+                      <span class="truncate">{path}</span>
+                    </li>
+                  )}
+                </For>
+              </ul>
+            </Show>
+          </ConfirmDialog>
+        )}
+      </Show>
       <Show when={false}>
         <Collapsible defaultOpen={false}>
           <Collapsible.Trigger>
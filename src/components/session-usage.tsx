@@ -0,0 +1,79 @@
+import { createMemo, Show } from "solid-js"
+import type { AssistantMessage } from "@opencode-ai/sdk"
+import { useSync } from "@/context"
+import { Tooltip } from "@/ui"
+import { addUsage, emptyUsage, formatCost, formatTokens, sumUsage, type Usage } from "@/utils/usage"
+
+const breakdown = (usage: Usage) =>
+  [
+    `${formatTokens(usage.input)} input`,
+    `${formatTokens(usage.output)} output`,
+    `${formatTokens(usage.reasoning)} reasoning`,
+    `${formatTokens(usage.cacheRead)} cache read`,
+    `${formatTokens(usage.cacheWrite)} cache write`,
+  ].join(" · ")
+
+export function ContextBar(props: { tokens: number; limit?: number }) {
+  const fill = () => (props.limit ? Math.min(1, props.tokens / props.limit) : 0)
+  return (
+    <div class="flex items-center gap-2 min-w-0">
+      <Show when={props.limit}>
+        <div class="grow h-1 rounded-full bg-background-element overflow-hidden">
+          <div
+            classList={{
+              "h-full rounded-full": true,
+              "bg-primary": fill() < 0.8,
+              "bg-warning": fill() >= 0.8 && fill() < 0.95,
+              "bg-error": fill() >= 0.95,
+            }}
+            style={{ width: `${fill() * 100}%` }}
+          />
+        </div>
+      </Show>
+      <span class="shrink-0 whitespace-nowrap">
+        {formatTokens(props.tokens)}
+        <Show when={props.limit}>
+          {(limit) => ` / ${formatTokens(limit())} (${Math.round(fill() * 100)}%)`}
+        </Show>{" "}
+        context
+      </span>
+    </div>
+  )
+}
+
+// cost of a single answer, with the token counts behind it on hover
+export function MessageUsage(props: { message: AssistantMessage }) {
+  return (
+    <Tooltip value={breakdown(addUsage(emptyUsage(), props.message))} placement="top">
+      <span class="text-xs text-text-muted/60 hover:text-text-muted">
+        {formatCost(props.message.cost)} · {props.message.modelID}
+      </span>
+    </Tooltip>
+  )
+}
+
+export default function SessionUsage(props: { session: string }) {
+  const sync = useSync()
+  const usage = createMemo(() => sumUsage(sync.data.message[props.session] ?? []))
+  const context = createMemo(() => sync.session.context(props.session))
+
+  return (
+    <Show when={usage().input || usage().output || usage().cost}>
+      <div
+        class="shrink-0 px-3 py-1.5 flex flex-col gap-1 bg-background border-t border-border-subtle/30
+               text-xs text-text-muted"
+      >
+        <div class="flex items-center gap-2 min-w-0">
+          <Tooltip value={breakdown(usage())} placement="top">
+            <span class="truncate">
+              {formatTokens(usage().input + usage().cacheRead + usage().cacheWrite)} in ·{" "}
+              {formatTokens(usage().output + usage().reasoning)} out
+            </span>
+          </Tooltip>
+          <span class="ml-auto text-text">{formatCost(usage().cost)}</span>
+        </div>
+        <Show when={context()}>{(context) => <ContextBar tokens={context().tokens} limit={context().limit} />}</Show>
+      </div>
+    </Show>
+  )
+}
@@ -0,0 +1,69 @@
+import { For, Match, Show, Switch } from "solid-js"
+import { useNavigate } from "@solidjs/router"
+import { useServer } from "@/context"
+import type { LoadState, LoadStep } from "@/context/sync"
+import { Button, Icon, Logo } from "@/ui"
+
+export const labels: Record<LoadStep, string> = {
+  path: "Project path",
+  provider: "Providers",
+  agent: "Agents",
+  command: "Commands",
+  session: "Sessions",
+  config: "Config",
+  changes: "Changes",
+  node: "Files",
+}
+
+export default function Startup(props: { step: Partial<Record<LoadStep, LoadState>>; onRetry: () => void }) {
+  const server = useServer()
+  const navigate = useNavigate()
+  const steps = Object.keys(labels) as LoadStep[]
+  const pending = () => steps.some((name) => props.step[name]?.status === "pending")
+
+  return (
+    <div class="h-screen flex items-center justify-center px-4">
+      <div class="w-full max-w-xl flex flex-col gap-4">
+        <div class="flex items-center gap-2">
+          <Logo variant="mark" size={20} />
+          <h1 class="text-sm font-medium text-text">{server.current().name}</h1>
+          <span class="text-xs text-text-muted/60 truncate min-w-0">{server.url()}</span>
+        </div>
+        <ul class="flex flex-col rounded-md ring-1 ring-border-subtle/40 divide-y divide-border-subtle/40">
+          <For each={steps}>
+            {(name) => (
+              <li class="flex items-center gap-2 px-2 py-1.5 text-xs">
+                <Switch>
+                  <Match when={props.step[name]?.status === "ready"}>
+                    <Icon name="check-circle" size={14} class="shrink-0 text-success" />
+                  </Match>
+                  <Match when={props.step[name]?.status === "error"}>
+                    <Icon name="close-circle" size={14} class="shrink-0 text-error" />
+                  </Match>
+                  <Match when={true}>
+                    <Icon name="loading" size={14} class="shrink-0 animate-spin" />
+                  </Match>
+                </Switch>
+                <span class="text-text whitespace-nowrap">{labels[name]}</span>
+                <Show when={props.step[name]?.error}>
+                  <span class="text-error/80 truncate min-w-0">{props.step[name]?.error}</span>
+                </Show>
+              </li>
+            )}
+          </For>
+        </ul>
+        <div class="flex items-center justify-end gap-2">
+          <Show when={!pending()}>
+            <span class="mr-auto text-xs text-text-muted">Could not load the project from this server.</span>
+            <Button size="md" class="pr-3" onClick={() => props.onRetry()}>
+              Retry
+            </Button>
+          </Show>
+          <Button size="md" class="pr-3" onClick={() => navigate("/settings")}>
+            Connection settings
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
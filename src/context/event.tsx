@@ -1,19 +1,95 @@
-import { createContext, useContext, type ParentProps } from "solid-js"
+import { createContext, onCleanup, useContext, type ParentProps } from "solid-js"
+import { createStore } from "solid-js/store"
 import { createEventBus } from "@solid-primitives/event-bus"
 import type { Event as SDKEvent } from "@opencode-ai/sdk"
 import { useSDK } from "@/context"
 
-export type Event = SDKEvent // can extend with custom events later
+export type Event =
+  | SDKEvent
+  // emitted once the stream is back after a drop, events sent in between are lost
+  | { type: "client.reconnected"; properties: {} }
+
+export type ConnectionStatus = "connecting" | "connected" | "reconnecting"
+
+const RETRY_MIN = 500
+const RETRY_MAX = 30_000
 
 function init() {
   const sdk = useSDK()
   const bus = createEventBus<Event>()
-  sdk.event.subscribe().then(async (events) => {
-    for await (const event of events.stream) {
-      bus.emit(event)
-    }
+  const abort = new AbortController()
+  const [store, setStore] = createStore({
+    status: "connecting" as ConnectionStatus,
+    attempt: 0,
+    error: undefined as string | undefined,
+    retryAt: undefined as number | undefined,
+  })
+
+  let wake: (() => void) | undefined
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(() => wake?.(), ms)
+      wake = () => {
+        clearTimeout(timer)
+        wake = undefined
+        resolve()
+      }
+    })
+  const reconnect = () => wake?.()
+
+  window.addEventListener("online", reconnect)
+  abort.signal.addEventListener("abort", reconnect)
+  onCleanup(() => {
+    window.removeEventListener("online", reconnect)
+    abort.abort()
   })
-  return bus
+
+  const run = async () => {
+    let connected = false
+    let attempt = 0
+    while (!abort.signal.aborted) {
+      let error: unknown
+      const events = await sdk.event.subscribe({
+        signal: abort.signal,
+        // the client would retry on its own, but then we couldn't tell when the stream is back
+        sseMaxRetryAttempts: 1,
+        onSseError: (e) => (error = e),
+      })
+      for await (const event of events.stream) {
+        if (store.status !== "connected") {
+          setStore({ status: "connected", attempt: 0, error: undefined, retryAt: undefined })
+          if (connected) bus.emit({ type: "client.reconnected", properties: {} })
+          connected = true
+          attempt = 0
+        }
+        bus.emit(event)
+      }
+      if (abort.signal.aborted) return
+
+      attempt++
+      const delay = Math.min(RETRY_MIN * 2 ** (attempt - 1), RETRY_MAX)
+      setStore({
+        status: connected ? "reconnecting" : "connecting",
+        attempt,
+        error: error instanceof Error ? error.message : error ? String(error) : "Event stream closed",
+        retryAt: Date.now() + delay,
+      })
+      await sleep(delay)
+    }
+  }
+  run()
+
+  return {
+    listen: bus.listen,
+    emit: bus.emit,
+    connection: {
+      status: () => store.status,
+      attempt: () => store.attempt,
+      error: () => store.error,
+      retryAt: () => store.retryAt,
+      reconnect,
+    },
+  }
 }
 
 type EventContext = ReturnType<typeof init>
@@ -2,6 +2,7 @@ export { EventProvider, useEvent } from "./event"
 export { LocalProvider, useLocal } from "./local"
 export { MarkedProvider, useMarked } from "./marked"
 export { SDKProvider, useSDK } from "./sdk"
+export { ServerProvider, useServer } from "./server"
 export { ShikiProvider, useShiki } from "./shiki"
 export { SyncProvider, useSync } from "./sync"
 export { ThemeProvider, useTheme } from "./theme"
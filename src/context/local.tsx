@@ -1,8 +1,11 @@
 import { createStore, produce, reconcile } from "solid-js/store"
 import { batch, createContext, createEffect, createMemo, useContext, type ParentProps } from "solid-js"
 import { uniqueBy } from "remeda"
+import { invoke, isTauri } from "@tauri-apps/api/core"
 import type { FileContent, FileNode, Model, Provider, File as FileStatus } from "@opencode-ai/sdk"
-import { useSDK, useEvent, useSync } from "@/context"
+import { useSDK, useEvent, useServer, useSync } from "@/context"
+import { changeGroups, git, groupPatch, parseHunks } from "@/utils/git"
+import { getFilename } from "@/utils"
 
 export type LocalFile = FileNode &
   Partial<{
@@ -16,6 +19,19 @@ export type LocalFile = FileNode &
     folded: string[]
     selectedChange: number
     status: FileStatus
+    editing: boolean
+    // unsaved text while editing, kept until it is saved or discarded
+    draft: string
+    // the file changed on disk while there were unsaved edits
+    conflict: boolean
+    // keys of the change groups that were kept, i.e. staged
+    kept: string[]
+    // line to scroll to once the file is shown
+    reveal: number
+    // why the file couldn't be loaded
+    error: string
+    // the diff view a reveal switched away from, back once the file is left
+    revealedFrom: "diff-unified" | "diff-split"
   }>
 export type TextSelection = LocalFile["selection"]
 export type View = LocalFile["view"]
@@ -28,23 +44,31 @@ export type ModelKey = { providerID: string; modelID: string }
 function init() {
   const sdk = useSDK()
   const sync = useSync()
+  const server = useServer()
 
   const agent = (() => {
     const list = createMemo(() => sync.data.agent.filter((x) => x.mode !== "subagent"))
+    const initial = () => list().find((x) => x.name === server.current().agent)?.name ?? list()[0]?.name ?? ""
     const [store, setStore] = createStore<{
       current: string
     }>({
-      current: list()[0].name,
+      current: initial(),
+    })
+    // the agents can come in later, after their failed load was retried
+    createEffect(() => {
+      if (list().length && !list().some((x) => x.name === store.current)) setStore("current", initial())
     })
     return {
       list,
+      // undefined when the agents failed to load
       current() {
-        return list().find((x) => x.name === store.current)!
+        return list().find((x) => x.name === store.current)
       },
       set(name: string | undefined) {
-        setStore("current", name ?? list()[0].name)
+        setStore("current", name ?? list()[0]?.name ?? "")
       },
       move(direction: 1 | -1) {
+        if (!list().length) return
         let next = list().findIndex((x) => x.name === store.current) + direction
         if (next < 0) next = list().length - 1
         if (next >= list().length) next = 0
@@ -63,7 +87,7 @@ function init() {
     const list = createMemo(() =>
       sync.data.provider.flatMap((p) => Object.values(p.models).map((m) => ({ ...m, provider: p }) as LocalModel)),
     )
-    const find = (key: ModelKey) => list().find((m) => m.id === key?.modelID && m.provider.id === key.providerID)
+    const find = (key: ModelKey | undefined) => list().find((m) => m.id === key?.modelID && m.provider.id === key.providerID)
 
     const [store, setStore] = createStore<{
       model: Record<string, ModelKey>
@@ -80,15 +104,18 @@ function init() {
     })
 
     const fallback = createMemo(() => {
+      const preferred = server.current().model
+      if (preferred && find(preferred)) return preferred
       if (store.recent.length) return store.recent[0]
       const provider = sync.data.provider[0]
-      const model = Object.values(provider.models)[0]
+      const model = provider && Object.values(provider.models)[0]
+      if (!model) return undefined
       return { modelID: model.id, providerID: provider.id }
     })
 
     const current = createMemo(() => {
       const a = agent.current()
-      return find(store.model[agent.current().name]) ?? find(a.model ?? fallback())
+      return find(a && store.model[a.name]) ?? find(a?.model ?? fallback())
     })
 
     const recent = createMemo(() => store.recent.map(find).filter(Boolean))
@@ -99,7 +126,9 @@ function init() {
       recent,
       set(model: ModelKey | undefined, options?: { recent?: boolean }) {
         batch(() => {
-          setStore("model", agent.current().name, model ?? fallback())
+          const a = agent.current()
+          const value = model ?? fallback()
+          if (a && value) setStore("model", a.name, value)
           if (options?.recent && model) {
             const uniq = uniqueBy([model, ...store.recent], (x) => x.providerID + x.modelID)
             if (uniq.length > 5) uniq.pop()
@@ -119,12 +148,24 @@ function init() {
       node: Object.fromEntries(sync.data.node.map((x) => [x.path, x])),
       opened: [],
     })
+    // undo history of the drafts, typing in quick succession is undone as one step
+    const [history, setHistory] = createStore<{
+      [path: string]: { entries: string[]; index: number; time: number }
+    }>({})
 
     const active = createMemo(() => {
       if (!store.active) return undefined
       return store.node[store.active]
     })
     const opened = createMemo(() => store.opened.map((x) => store.node[x]))
+
+    createEffect((previous?: string) => {
+      const from = previous && store.node[previous]?.revealedFrom
+      if (previous !== store.active && from)
+        setStore("node", previous, { view: from, revealedFrom: undefined })
+      return store.active
+    })
+
     const changeset = createMemo(() => new Set(sync.data.changes.map((f) => f.path)))
     const changes = createMemo(() => Array.from(changeset()).sort((a, b) => a.localeCompare(b)))
 
@@ -170,13 +211,31 @@ function init() {
 
     const load = async (path: string) => {
       const relativePath = relative(path)
-      sdk.file.read({ query: { path: relativePath } }).then((x) => {
+      // nothing left on disk to read, show the last committed version instead
+      if (store.node[relativePath]?.status?.status === "deleted" && server.managed()) {
+        const result = await git.show(sync.data.path.directory, relativePath).then(
+          (content) => ({ content, error: undefined }),
+          (e) => ({ content: undefined, error: e instanceof Error ? e.message : String(e) }),
+        )
+        setStore(
+          "node",
+          relativePath,
+          produce((draft) => {
+            draft.loaded = true
+            draft.content = result.content === undefined ? undefined : { content: result.content }
+            draft.error = result.error
+          }),
+        )
+        return
+      }
+      return sdk.file.read({ query: { path: relativePath } }).then((x) => {
         setStore(
           "node",
           relativePath,
           produce((draft) => {
             draft.loaded = true
             draft.content = x.data
+            draft.error = undefined
           }),
         )
       })
@@ -188,6 +247,16 @@ function init() {
       if (parent) {
         await list(parent)
       }
+      // deleted files aren't listed anymore, they still get a node to open them by
+      if (!store.node[relativePath]) {
+        setStore("node", relativePath, {
+          name: getFilename(relativePath),
+          path: relativePath,
+          absolute: `${sync.data.path.directory}/${relativePath}`,
+          type: "file",
+          ignored: false,
+        })
+      }
     }
 
     const open = async (path: string, options?: { pinned?: boolean; view?: LocalFile["view"] }) => {
@@ -223,6 +292,75 @@ function init() {
       })
     }
 
+    const dirty = (path: string) => {
+      const node = store.node[path]
+      return node?.draft !== undefined && node.draft !== node.content?.content
+    }
+
+    const discard = (path: string) => {
+      setStore(
+        "node",
+        path,
+        produce((draft) => {
+          draft.draft = undefined
+          draft.editing = false
+          draft.conflict = false
+        }),
+      )
+      setHistory(produce((draft) => delete draft[path]))
+    }
+
+    const restore = (path: string, index: number) => {
+      const entries = history[path]?.entries
+      if (!entries || index < 0 || index >= entries.length) return
+      setHistory(path, { index, time: 0 })
+      setStore("node", path, "draft", entries[index])
+    }
+
+    // the agent's change at `index` in the diff, after the changes list and the tab are refreshed
+    const change = (path: string, index: number) => {
+      const patch = store.node[path]?.content?.patch
+      const group = changeGroups(patch)[index]
+      if (!patch || !group) throw new Error("This change is no longer in the file")
+      return { patch, group }
+    }
+
+    // Something else rewrote the file. Unsaved edits get the conflict prompt, an unchanged draft follows the new
+    // contents, so it can't be saved back over them.
+    const rewritten = async (path: string) => {
+      if (dirty(path)) {
+        setStore("node", path, "conflict", true)
+        return
+      }
+      const before = store.node[path]?.draft
+      await load(path)
+      const node = store.node[path]
+      if (node?.draft === undefined) return
+      const text = node.content?.content ?? ""
+      if (node.draft === text) return
+      // typed into while it loaded
+      if (node.draft !== before) {
+        setStore("node", path, "conflict", true)
+        return
+      }
+      setStore("node", path, "draft", text)
+      setHistory(path, { entries: [text], index: 0, time: 0 })
+    }
+
+    // The same change in the diff git applies it to, index to working tree for keeping it and HEAD to index for
+    // taking it back out. Once part of a hunk is kept, the index no longer matches HEAD.
+    const indexed = async (path: string, key: string, cached: boolean) => {
+      const patch = { hunks: parseHunks(await git.diff(sync.data.path.directory, path, cached)) }
+      const group = changeGroups(patch).find((x) => x.key === key)
+      if (!group) throw new Error(cached ? "This change isn't kept anymore" : "This change is already kept")
+      return { patch, group }
+    }
+
+    const reload = (path: string) => {
+      sync.load.changes()
+      return load(path)
+    }
+
     const search = (query: string) => sdk.find.files({ query: { query } }).then((x) => x.data!)
 
     const bus = useEvent()
@@ -246,7 +384,7 @@ function init() {
           setTimeout(sync.load.changes, 1000)
           const relativePath = relative(event.properties.file)
           if (relativePath.startsWith(".git/")) return
-          load(relativePath)
+          rewritten(relativePath)
           break
       }
     })
@@ -258,6 +396,106 @@ function init() {
       update: (path: string, node: LocalFile) => setStore("node", path, reconcile(node)),
       open,
       load,
+      // after something outside the editor rewrote files, e.g. reverting a session
+      refresh() {
+        sync.load.changes()
+        for (const path of store.opened) rewritten(path)
+      },
+      edit(path: string, editing: boolean) {
+        const node = store.node[path]
+        if (!node) return
+        if (editing && node.draft === undefined) {
+          const text = node.content?.content ?? ""
+          setStore("node", path, "draft", text)
+          setHistory(path, { entries: [text], index: 0, time: 0 })
+        }
+        setStore("node", path, "editing", editing)
+      },
+      change(path: string, text: string) {
+        const current = history[path]
+        if (!current) return
+        const now = Date.now()
+        if (current.index > 0 && current.index === current.entries.length - 1 && now - current.time < 1000) {
+          setHistory(path, "entries", current.index, text)
+        } else {
+          setHistory(path, {
+            entries: [...current.entries.slice(0, current.index + 1), text],
+            index: current.index + 1,
+          })
+        }
+        setHistory(path, "time", now)
+        setStore("node", path, "draft", text)
+      },
+      undo(path: string) {
+        restore(path, (history[path]?.index ?? 0) - 1)
+      },
+      redo(path: string) {
+        restore(path, (history[path]?.index ?? 0) + 1)
+      },
+      canUndo(path: string) {
+        return (history[path]?.index ?? 0) > 0
+      },
+      canRedo(path: string) {
+        const current = history[path]
+        return !!current && current.index < current.entries.length - 1
+      },
+      dirty,
+      async save(path: string) {
+        const text = store.node[path]?.draft
+        if (text === undefined) return
+        if (!isTauri()) throw new Error("Saving files requires the desktop app")
+        await invoke("file_write", { directory: sync.data.path.directory, path, contents: text })
+        // the watcher event for our own write then finds nothing unsaved
+        setStore(
+          "node",
+          path,
+          produce((draft) => {
+            draft.content = { ...draft.content, content: text }
+            draft.conflict = false
+          }),
+        )
+        sync.load.changes()
+      },
+      discard(path: string) {
+        discard(path)
+        load(path)
+      },
+      // keep the unsaved edits, saving will overwrite what changed on disk
+      keep(path: string) {
+        setStore("node", path, "conflict", false)
+      },
+      async keepChange(path: string, index: number) {
+        const { group } = change(path, index)
+        const unstaged = await indexed(path, group.key, false)
+        await git.apply(sync.data.path.directory, groupPatch(path, unstaged.patch, unstaged.group, "old"), {
+          cached: true,
+        })
+        setStore("node", path, "kept", (kept) => [...(kept ?? []), group.key])
+        await reload(path)
+      },
+      async discardChange(path: string, index: number) {
+        const { patch, group } = change(path, index)
+        const directory = sync.data.path.directory
+        // a kept change is staged as well, it comes out of the index too
+        const staged = store.node[path]?.kept?.includes(group.key) ? await indexed(path, group.key, true) : undefined
+        await git.apply(directory, groupPatch(path, patch, group, "new"), { reverse: true })
+        if (staged) {
+          const unkeep = groupPatch(path, staged.patch, staged.group, "new")
+          await git.apply(directory, unkeep, { reverse: true, cached: true })
+        }
+        setStore("node", path, "kept", (kept) => kept?.filter((key) => key !== group.key))
+        await reload(path)
+      },
+      async discardFile(path: string) {
+        await git.discard(sync.data.path.directory, path)
+        setStore("node", path, "kept", undefined)
+        await reload(path)
+      },
+      kept(path: string) {
+        const kept = store.node[path]?.kept ?? []
+        const groups = changeGroups(store.node[path]?.content?.patch)
+        return groups.flatMap((group, i) => (kept.includes(group.key) ? [i] : []))
+      },
       close(path: string) {
         setStore("opened", (opened) => opened.filter((x) => x !== path))
         if (store.active === path) {
@@ -265,6 +503,7 @@ function init() {
           const previous = store.opened[Math.max(0, index - 1)]
           setStore("active", previous)
         }
+        setHistory(produce((draft) => delete draft[path]))
         resetNode(path)
       },
       expand(path: string) {
@@ -279,6 +518,22 @@ function init() {
       select(path: string, selection: TextSelection | undefined) {
         setStore("node", path, "selection", selection)
       },
+      // selects a range and scrolls to it, line numbers are the file's own so it shows the raw file until it is left
+      reveal(path: string, selection: NonNullable<TextSelection>) {
+        setStore(
+          "node",
+          path,
+          produce((draft) => {
+            draft.selection = selection
+            draft.reveal = selection.startLine
+            if (draft.view && draft.view !== "raw") draft.revealedFrom ??= draft.view
+            draft.view = "raw"
+          }),
+        )
+      },
+      revealed(path: string) {
+        setStore("node", path, "reveal", undefined)
+      },
       scroll(path: string, scrollTop: number) {
         setStore("node", path, "scrollTop", scrollTop)
       },
@@ -298,7 +553,7 @@ function init() {
         return n && n.view ? n.view : "raw"
       },
       setView(path: string, view: View) {
-        setStore("node", path, "view", view)
+        setStore("node", path, { view, revealedFrom: undefined })
       },
       unfold(path: string, key: string) {
         setStore("node", path, "folded", (xs) => {
@@ -325,6 +580,7 @@ function init() {
       children(path: string) {
         return Object.values(store.node).filter(
           (x) =>
+            x.status?.status !== "deleted" &&
             x.path.startsWith(path) &&
             x.path !== path &&
             !x.path.replace(new RegExp(`^${path + "/"}`), "").includes("/"),
@@ -395,6 +651,12 @@ function init() {
       return sync.session.get(store.active)
     })
 
+    const bus = useEvent()
+    bus.listen((event) => {
+      if (event.type !== "client.reconnected") return
+      if (store.active) sync.session.sync(store.active)
+    })
+
     return {
       active,
       setActive(sessionId: string | undefined) {
@@ -406,12 +668,37 @@ function init() {
     }
   })()
 
+  const prompt = (() => {
+    const [store, setStore] = createStore<{
+      history: string[]
+    }>({
+      history: [],
+    })
+
+    const value = localStorage.getItem("prompt-history")
+    setStore("history", JSON.parse(value ?? "[]"))
+    createEffect(() => {
+      localStorage.setItem("prompt-history", JSON.stringify(store.history))
+    })
+
+    return {
+      // most recent first
+      history: () => store.history,
+      push(text: string) {
+        const value = text.trim()
+        if (!value) return
+        setStore("history", (history) => [value, ...history.filter((x) => x !== value)].slice(0, 100))
+      },
+    }
+  })()
+
   const result = {
     model,
     agent,
     file,
     layout,
     session,
+    prompt,
   }
   return result
 }
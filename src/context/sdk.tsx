@@ -1,12 +1,12 @@
-import { createContext, useContext, type ParentProps } from "solid-js"
+import { createContext, createMemo, Show, useContext, type JSX, type ParentProps } from "solid-js"
 import { createOpencodeClient } from "@opencode-ai/sdk/client"
+import { useServer } from "@/context"
+import { headers } from "@/context/server"
 
-const host = import.meta.env.VITE_OPENCODE_SERVER_HOST ?? "127.0.0.1"
-const port = import.meta.env.VITE_OPENCODE_SERVER_PORT ?? "4096"
-
-function init() {
+function init(connection: { baseUrl: string; auth?: string }) {
   const client = createOpencodeClient({
-    baseUrl: `http://${host}:${port}`,
+    baseUrl: connection.baseUrl,
+    headers: headers(connection.auth),
   })
   return client
 }
@@ -15,9 +15,26 @@ type SDKContext = ReturnType<typeof init>
 
 const ctx = createContext<SDKContext>()
 
-export function SDKProvider(props: ParentProps) {
-  const value = init()
-  return <ctx.Provider value={value}>{props.children}</ctx.Provider>
+export function SDKProvider(props: ParentProps<{ fallback?: JSX.Element }>) {
+  const server = useServer()
+  // only the fields that affect the connection, so renaming a profile doesn't reconnect
+  const connection = createMemo(
+    () => {
+      const baseUrl = server.url()
+      if (!baseUrl) return undefined
+      return { baseUrl, auth: server.current().auth }
+    },
+    undefined,
+    {
+      equals: (a, b) => a?.baseUrl === b?.baseUrl && a?.auth === b?.auth,
+    },
+  )
+  // keyed so that everything below (events, sync, local state) is rebuilt when the server changes
+  return (
+    <Show when={connection()} keyed fallback={props.fallback}>
+      {(connection) => <ctx.Provider value={init(connection)}>{props.children}</ctx.Provider>}
+    </Show>
+  )
 }
 
 export function useSDK() {
@@ -0,0 +1,303 @@
+import { createContext, createEffect, createMemo, onCleanup, untrack, useContext, type ParentProps } from "solid-js"
+import { createStore, produce } from "solid-js/store"
+import { createOpencodeClient, type Path } from "@opencode-ai/sdk/client"
+import { invoke, isTauri } from "@tauri-apps/api/core"
+import { listen } from "@tauri-apps/api/event"
+import { open } from "@tauri-apps/plugin-dialog"
+import { getFilename } from "@/utils"
+import type { ModelKey } from "@/context/local"
+
+const host = import.meta.env.VITE_OPENCODE_SERVER_HOST ?? "127.0.0.1"
+const port = import.meta.env.VITE_OPENCODE_SERVER_PORT ?? "4096"
+
+export type ServerProfile = {
+  id: string
+  name: string
+  url: string
+  auth?: string
+  agent?: string
+  model?: ModelKey
+  // when set, a local `opencode serve` is started in this directory and `url` is ignored
+  directory?: string
+  // the one profile opening a project switches to a new directory, so the recent projects don't each add a profile
+  projects?: boolean
+}
+
+export type ServerCheck = { ok: true; path: Path } | { ok: false; error: string }
+
+export type ProcessInfo = { directory: string; port: number }
+export type ProcessStatus = "stopped" | "starting" | "running" | "restarting" | "failed"
+export type ProcessLog = { stream: "stdout" | "stderr"; line: string }
+
+function normalize(url: string) {
+  const trimmed = url.trim().replace(/\/+$/, "")
+  if (!trimmed) return trimmed
+  if (/^https?:\/\//.test(trimmed)) return trimmed
+  return `http://${trimmed}`
+}
+
+// "Name: value" sets a custom header, anything else is sent as the Authorization header
+export function headers(auth: string | undefined): Record<string, string> | undefined {
+  const value = auth?.trim()
+  if (!value) return undefined
+  const match = value.match(/^([A-Za-z0-9-]+):\s*(.+)$/)
+  if (match) return { [match[1]]: match[2] }
+  return { Authorization: value }
+}
+
+const id = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 6)
+
+const localUrl = (port: number) => `http://127.0.0.1:${port}`
+
+async function check(url: string, auth?: string): Promise<ServerCheck> {
+  const baseUrl = normalize(url)
+  if (!baseUrl) return { ok: false, error: "Base URL is empty" }
+  try {
+    const client = createOpencodeClient({ baseUrl, headers: headers(auth), signal: AbortSignal.timeout(5000) })
+    const result = await client.path.get()
+    if (!result.data) return { ok: false, error: `Server responded with ${result.response.status}` }
+    return { ok: true, path: result.data }
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) }
+  }
+}
+
+function init() {
+  const fallback: ServerProfile = { id: "default", name: "Local", url: `http://${host}:${port}` }
+  const [store, setStore] = createStore<{
+    profiles: ServerProfile[]
+    current: string
+  }>({
+    profiles: [fallback],
+    current: fallback.id,
+  })
+
+  const value = localStorage.getItem("server")
+  if (value) {
+    const v = JSON.parse(value)
+    if (Array.isArray(v?.profiles) && v.profiles.length) {
+      setStore("profiles", v.profiles)
+      if (typeof v.current === "string") setStore("current", v.current)
+    } else if (typeof v?.url === "string" && v.url) {
+      // single base URL persisted by earlier versions
+      setStore("profiles", 0, "url", normalize(v.url))
+    }
+  }
+  createEffect(() => {
+    localStorage.setItem("server", JSON.stringify(store))
+  })
+
+  const current = createMemo(() => store.profiles.find((p) => p.id === store.current) ?? store.profiles[0])
+
+  const process = (() => {
+    const [store, setStore] = createStore<{
+      status: ProcessStatus
+      info?: ProcessInfo
+      error?: string
+      log: ProcessLog[]
+    }>({
+      status: "stopped",
+      log: [],
+    })
+
+    const append = (entry: ProcessLog) =>
+      setStore("log", (log) => {
+        const next = [...log, entry]
+        return next.length > 500 ? next.slice(-500) : next
+      })
+
+    // the process takes a moment to bind its port after spawning
+    const ready = async (info: ProcessInfo) => {
+      let last: ServerCheck | undefined
+      for (let attempt = 0; attempt < 30; attempt++) {
+        if (store.info?.directory !== info.directory || store.info.port !== info.port) return
+        last = await check(localUrl(info.port))
+        if (last.ok) {
+          setStore("status", "running")
+          return
+        }
+        await new Promise((resolve) => setTimeout(resolve, 500))
+      }
+      setStore("status", "failed")
+      setStore("error", last && !last.ok ? last.error : "Server did not become ready")
+    }
+
+    if (isTauri()) {
+      const unlisten = [
+        listen<ProcessLog>("server://log", (e) => append(e.payload)),
+        listen<ProcessInfo>("server://started", (e) => {
+          setStore("info", e.payload)
+          ready(e.payload)
+        }),
+        listen<{ code: number | null; restarting: boolean }>("server://exit", (e) => {
+          const message = `opencode serve exited with code ${e.payload.code ?? "unknown"}`
+          append({ stream: "stderr", line: message })
+          setStore("status", e.payload.restarting ? "restarting" : "failed")
+          if (!e.payload.restarting) setStore("error", message)
+        }),
+        listen<string>("server://error", (e) => {
+          setStore("status", "failed")
+          setStore("error", e.payload)
+        }),
+      ]
+      onCleanup(() => unlisten.forEach((x) => x.then((f) => f())))
+    }
+
+    return {
+      status() {
+        return store.status
+      },
+      info() {
+        return store.info
+      },
+      error() {
+        return store.error
+      },
+      log() {
+        return store.log
+      },
+      async start(directory: string) {
+        if (!isTauri()) {
+          setStore("status", "failed")
+          setStore("error", "Starting a local server requires the desktop app")
+          return
+        }
+        if (store.info?.directory === directory && store.status !== "failed") return
+        setStore({ status: "starting", info: undefined, error: undefined, log: [] })
+        try {
+          const info = await invoke<ProcessInfo>("server_start", { directory })
+          setStore("info", info)
+          await ready(info)
+        } catch (e) {
+          setStore("status", "failed")
+          setStore("error", String(e))
+        }
+      },
+      async stop() {
+        if (!isTauri() || store.status === "stopped") return
+        setStore({ status: "stopped", info: undefined, error: undefined })
+        await invoke("server_stop")
+      },
+    }
+  })()
+
+  // start the local server for the selected profile, and stop it when switching away
+  createEffect(() => {
+    const directory = current().directory
+    untrack(() => (directory ? process.start(directory) : process.stop()))
+  })
+
+  const url = createMemo((previous?: string) => {
+    const profile = current()
+    if (!profile.directory) return profile.url
+    const info = process.info()
+    // keep the last url while a crashed server restarts, instead of tearing down the workspace until it's back
+    if (process.status() === "restarting" && info?.directory === profile.directory) return previous
+    if (process.status() !== "running" || !info || info.directory !== profile.directory) return undefined
+    return localUrl(info.port)
+  })
+
+  const profiles = () => store.profiles
+
+  const select = (id: string) => {
+    if (!store.profiles.some((p) => p.id === id)) return
+    setStore("current", id)
+  }
+
+  const add = (profile: Omit<ServerProfile, "id">) => {
+    const next = { ...profile, id: id(), url: normalize(profile.url) }
+    setStore("profiles", (profiles) => [...profiles, next])
+    return next.id
+  }
+
+  const retarget = (id: string, directory: string) =>
+    setStore("profiles", (p) => p.id === id, { name: getFilename(directory) || directory, directory })
+
+  const projects = (() => {
+    const [store, setStore] = createStore<{
+      recent: string[]
+    }>({
+      recent: [],
+    })
+
+    const value = localStorage.getItem("projects")
+    setStore("recent", JSON.parse(value ?? "[]"))
+    createEffect(() => {
+      localStorage.setItem("projects", JSON.stringify(store.recent))
+    })
+
+    const touch = (directory: string) =>
+      setStore("recent", (recent) => [directory, ...recent.filter((x) => x !== directory)].slice(0, 10))
+
+    return {
+      recent() {
+        return store.recent
+      },
+      touch,
+      forget(directory: string) {
+        setStore("recent", (recent) => recent.filter((x) => x !== directory))
+      },
+      async pick() {
+        if (!isTauri()) return undefined
+        const directory = await open({ directory: true, multiple: false, title: "Open project" })
+        return directory ?? undefined
+      },
+      // switches to the profile serving this directory, or points the projects profile at it
+      open(directory: string) {
+        touch(directory)
+        const match = profiles().find((p) => p.directory === directory) ?? profiles().find((p) => p.projects)
+        if (!match) {
+          select(add({ name: getFilename(directory) || directory, url: "", directory, projects: true }))
+          return
+        }
+        if (match.directory !== directory) retarget(match.id, directory)
+        select(match.id)
+      },
+    }
+  })()
+  return {
+    profiles,
+    current,
+    url,
+    process,
+    // the app runs this profile's server itself, only then can it write the project's files and run git in it
+    managed: () => isTauri() && !!current().directory,
+    projects,
+    select,
+    add,
+    update(id: string, profile: Partial<Omit<ServerProfile, "id">>) {
+      setStore(
+        "profiles",
+        (p) => p.id === id,
+        produce((draft) => {
+          const { url, ...rest } = profile
+          Object.assign(draft, rest)
+          if (url !== undefined) draft.url = normalize(url)
+        }),
+      )
+    },
+    remove(id: string) {
+      if (store.profiles.length <= 1) return
+      setStore("profiles", (profiles) => profiles.filter((p) => p.id !== id))
+      if (store.current === id) setStore("current", store.profiles[0].id)
+    },
+    check,
+  }
+}
+
+type ServerContext = ReturnType<typeof init>
+
+const ctx = createContext<ServerContext>()
+
+export function ServerProvider(props: ParentProps) {
+  const value = init()
+  return <ctx.Provider value={value}>{props.children}</ctx.Provider>
+}
+
+export function useServer() {
+  const value = useContext(ctx)
+  if (!value) {
+    throw new Error("useServer must be used within a ServerProvider")
+  }
+  return value
+}
@@ -1,14 +1,33 @@
-import type { Message, Agent, Provider, Session, Part, Config, Path, File, FileNode } from "@opencode-ai/sdk"
+import type {
+  AssistantMessage,
+  Message,
+  Agent,
+  Provider,
+  Session,
+  Part,
+  Config,
+  Path,
+  File,
+  FileNode,
+  Permission,
+  Command,
+} from "@opencode-ai/sdk"
 import { createStore, produce, reconcile } from "solid-js/store"
-import { createContext, createMemo, Show, useContext, type ParentProps } from "solid-js"
-import { useSDK, useEvent } from "@/context"
+import { createContext, createMemo, Show, useContext, type JSX, type ParentProps } from "solid-js"
+import { useSDK, useEvent, useServer } from "@/context"
+import { headers } from "@/context/server"
 import { Binary } from "@/utils/binary"
+import { contextTokens } from "@/utils/usage"
+
+export type LoadStep = "provider" | "path" | "agent" | "command" | "session" | "config" | "changes" | "node"
+export type LoadState = { status: "pending" | "ready" | "error"; error?: string }
 
 function init() {
   const [store, setStore] = createStore<{
     ready: boolean
     provider: Provider[]
     agent: Agent[]
+    command: Command[]
     config: Config
     path: Path
     session: Session[]
@@ -18,24 +37,50 @@ function init() {
     part: {
       [messageID: string]: Part[]
     }
+    permission: {
+      [sessionID: string]: Permission[]
+    }
     node: FileNode[]
     changes: File[]
+    step: Partial<Record<LoadStep, LoadState>>
   }>({
     config: {},
     path: { state: "", config: "", worktree: "", directory: "" },
     ready: false,
     agent: [],
+    command: [],
     provider: [],
     session: [],
     message: {},
     part: {},
+    permission: {},
     node: [],
     changes: [],
+    step: {},
   })
 
+  const dismiss = (sessionID: string, permissionID: string) => {
+    const permissions = store.permission[sessionID]
+    if (!permissions) return
+    const result = Binary.search(permissions, permissionID, (p) => p.id)
+    if (!result.found) return
+    setStore(
+      "permission",
+      sessionID,
+      produce((draft) => {
+        draft.splice(result.index, 1)
+      }),
+    )
+  }
+
   const bus = useEvent()
   bus.listen((event) => {
     switch (event.type) {
+      case "client.reconnected": {
+        // anything could have changed while the stream was down
+        Promise.all(Object.values(load).map((p) => p()))
+        break
+      }
       case "session.updated": {
         const result = Binary.search(store.session, event.properties.info.id, (s) => s.id)
         if (result.found) {
@@ -50,6 +95,17 @@ function init() {
         )
         break
       }
+      case "session.deleted": {
+        const result = Binary.search(store.session, event.properties.info.id, (s) => s.id)
+        if (!result.found) break
+        setStore(
+          produce((draft) => {
+            draft.session.splice(result.index, 1)
+            delete draft.permission[event.properties.info.id]
+          }),
+        )
+        break
+      }
       case "message.updated": {
         const messages = store.message[event.properties.info.sessionID]
         if (!messages) {
@@ -90,28 +146,80 @@ function init() {
         )
         break
       }
+      case "permission.updated": {
+        const permissions = store.permission[event.properties.sessionID]
+        if (!permissions) {
+          setStore("permission", event.properties.sessionID, [event.properties])
+          break
+        }
+        const result = Binary.search(permissions, event.properties.id, (p) => p.id)
+        if (result.found) {
+          setStore("permission", event.properties.sessionID, result.index, reconcile(event.properties))
+          break
+        }
+        setStore(
+          "permission",
+          event.properties.sessionID,
+          produce((draft) => {
+            draft.splice(result.index, 0, event.properties)
+          }),
+        )
+        break
+      }
+      case "permission.replied": {
+        dismiss(event.properties.sessionID, event.properties.permissionID)
+        break
+      }
     }
   })
 
   const sdk = useSDK()
+  const server = useServer()
+
+  // a failed step keeps its previous (initially empty) data and records the error instead of rejecting
+  const step = (name: LoadStep, fn: () => Promise<unknown>) => async () => {
+    setStore("step", name, { status: "pending", error: undefined })
+    try {
+      await fn()
+      setStore("step", name, { status: "ready" })
+    } catch (e) {
+      setStore("step", name, { status: "error", error: e instanceof Error ? e.message : JSON.stringify(e) })
+    }
+  }
 
-  const load = {
-    provider: () => sdk.config.providers().then((x) => setStore("provider", x.data!.providers)),
-    path: () => sdk.path.get().then((x) => setStore("path", x.data!)),
-    agent: () => sdk.app.agents().then((x) => setStore("agent", x.data ?? [])),
-    session: () =>
-      sdk.session.list().then((x) =>
+  const load: Record<LoadStep, () => Promise<void>> = {
+    provider: step("provider", () =>
+      sdk.config.providers({ throwOnError: true }).then((x) => setStore("provider", x.data.providers)),
+    ),
+    path: step("path", () => sdk.path.get({ throwOnError: true }).then((x) => setStore("path", x.data))),
+    agent: step("agent", () => sdk.app.agents({ throwOnError: true }).then((x) => setStore("agent", x.data ?? []))),
+    command: step("command", () =>
+      sdk.command.list({ throwOnError: true }).then((x) => setStore("command", x.data ?? [])),
+    ),
+    session: step("session", () =>
+      sdk.session.list({ throwOnError: true }).then((x) =>
         setStore(
           "session",
           (x.data ?? []).slice().sort((a, b) => a.id.localeCompare(b.id)),
         ),
       ),
-    config: () => sdk.config.get().then((x) => setStore("config", x.data!)),
-    changes: () => sdk.file.status().then((x) => setStore("changes", x.data!)),
-    node: () => sdk.file.list({ query: { path: "/" } }).then((x) => setStore("node", x.data!)),
+    ),
+    config: step("config", () => sdk.config.get({ throwOnError: true }).then((x) => setStore("config", x.data))),
+    changes: step("changes", () => sdk.file.status({ throwOnError: true }).then((x) => setStore("changes", x.data))),
+    node: step("node", () =>
+      sdk.file.list({ query: { path: "/" }, throwOnError: true }).then((x) => setStore("node", x.data)),
+    ),
   }
 
-  Promise.all(Object.values(load).map((p) => p())).then(() => setStore("ready", true))
+  const run = (steps: LoadStep[]) =>
+    Promise.all(steps.map((name) => load[name]())).then(() => {
+      // everything else can be missing, but without the path we don't know which project this is
+      if (store.step.path?.status === "ready") setStore("ready", true)
+    })
+
+  const failed = () => (Object.keys(store.step) as LoadStep[]).filter((name) => store.step[name]?.status === "error")
+
+  run(Object.keys(load) as LoadStep[])
 
   const sanitizer = createMemo(() => new RegExp(`${store.path.directory}/`, "g"))
   const sanitize = (text: string) => text.replace(sanitizer(), "")
@@ -125,6 +233,25 @@ function init() {
         if (match.found) return store.session[match.index]
         return undefined
       },
+      // busy until the last assistant message completes, including while waiting for it to start
+      working(sessionID: string) {
+        const messages = store.message[sessionID] ?? []
+        const last = messages[messages.length - 1]
+        if (!last) return false
+        if (last.role === "user") return true
+        return !last.time.completed
+      },
+      // how full the model's context window was after the last finished turn
+      context(sessionID: string) {
+        const messages = (store.message[sessionID] ?? []).filter(
+          (m): m is AssistantMessage => m.role === "assistant" && m.tokens.output > 0,
+        )
+        const last = messages[messages.length - 1]
+        if (!last) return undefined
+        const limit = store.provider.find((p) => p.id === last.providerID)?.models[last.modelID]?.limit.context
+        // after compacting, only the summary is carried into the next turn
+        return { tokens: last.summary ? last.tokens.output : contextTokens(last), limit: limit || undefined }
+      },
       async sync(sessionID: string) {
         const [session, messages] = await Promise.all([
           sdk.session.get({ path: { id: sessionID } }),
@@ -144,8 +271,37 @@ function init() {
           }),
         )
       },
+      // copies the conversation before `messageID` (or all of it) into a new session. the endpoint isn't in the
+      // generated client yet, so older servers answer 404
+      async fork(sessionID: string, messageID?: string) {
+        const response = await fetch(`${server.url()}/session/${sessionID}/fork`, {
+          method: "POST",
+          headers: { ...headers(server.current().auth), "Content-Type": "application/json" },
+          body: JSON.stringify({ messageID }),
+        })
+        if (response.status === 404) throw new Error("This server does not support forking sessions")
+        if (!response.ok) throw new Error(`Fork failed with ${response.status}: ${await response.text()}`)
+        return (await response.json()) as Session
+      },
+    },
+    permission: {
+      // one that can't be answered anymore, e.g. answered or expired while the event stream was down, is dropped
+      respond(permission: Permission, response: "once" | "always" | "reject") {
+        return sdk
+          .postSessionIdPermissionsPermissionId({
+            path: { id: permission.sessionID, permissionID: permission.id },
+            body: { response },
+            throwOnError: true,
+          })
+          .then(
+            () => {},
+            () => dismiss(permission.sessionID, permission.id),
+          )
+      },
     },
     load,
+    failed,
+    retry: () => run(failed()),
     sanitize,
   }
 }
@@ -154,10 +310,15 @@ type SyncContext = ReturnType<typeof init>
 
 const ctx = createContext<SyncContext>()
 
-export function SyncProvider(props: ParentProps) {
+// the fallback shows the loading steps until everything needed is in
+export function SyncProvider(
+  props: ParentProps<{
+    fallback?: (step: Partial<Record<LoadStep, LoadState>>, retry: () => void) => JSX.Element
+  }>,
+) {
   const value = init()
   return (
-    <Show when={value.data.ready}>
+    <Show when={value.data.ready} fallback={props.fallback?.(value.data.step, value.retry)}>
       <ctx.Provider value={value}>{props.children}</ctx.Provider>
     </Show>
   )
@@ -2,10 +2,12 @@ import { Button, FileIcon, Icon, IconButton, Logo, Tooltip } from "@/ui"
 import { Tabs } from "@/ui/tabs"
 import { Select } from "@/components/select"
 import FileTree from "@/components/file-tree"
-import { For, Match, onCleanup, onMount, Show, Switch } from "solid-js"
+import { createMemo, For, Match, onCleanup, onMount, Show, Switch } from "solid-js"
 import { SelectDialog } from "@/components/select-dialog"
-import { useLocal, useSDK } from "@/context"
+import { useLocal, useSDK, useServer, useSync } from "@/context"
 import { Code } from "@/components/code"
+import { CodeEditor } from "@/components/code-editor"
+import { ConfirmDialog } from "@/components/confirm-dialog"
 import {
   DragDropProvider,
   DragDropSensors,
@@ -17,24 +19,67 @@ import {
 } from "@thisbeyond/solid-dnd"
 import type { DragEvent, Transformer } from "@thisbeyond/solid-dnd"
 import type { LocalFile } from "@/context/local"
+import GitPanel from "@/components/git-panel"
+import SearchPanel from "@/components/search-panel"
 import SessionList from "@/components/session-list"
 import SessionTimeline from "@/components/session-timeline"
+import SessionActions from "@/components/session-actions"
+import SessionUsage from "@/components/session-usage"
+import { formatTokens } from "@/utils/usage"
+import ProjectSelect from "@/components/project-select"
+import PromptEditor, { mentions, type PromptCommand } from "@/components/prompt-editor"
+import {
+  AttachmentTag,
+  attachmentMime,
+  isMedia,
+  MAX_ATTACHMENT_SIZE,
+  pickAttachments,
+  readAttachment,
+  type Attachment,
+} from "@/components/attachment"
+import ConnectionStatus from "@/components/connection-status"
+import PermissionBadge from "@/components/permission-badge"
 import { createStore } from "solid-js/store"
 import { getDirectory, getFilename } from "@/utils"
+import { useNavigate } from "@solidjs/router"
+import { isTauri } from "@tauri-apps/api/core"
+
+const CONTEXT_WARNING = 0.8
+
+const builtins: PromptCommand[] = [
+  { name: "new", description: "Start a new session", builtin: true },
+  { name: "compact", description: "Summarize the session to free up context", builtin: true },
+  { name: "share", description: "Share the session and copy the link", builtin: true },
+  { name: "undo", description: "Revert the last message and its file changes", builtin: true },
+  { name: "redo", description: "Restore the last reverted message", builtin: true },
+]
 
 export default function Page() {
   const sdk = useSDK()
+  const sync = useSync()
   const local = useLocal()
+  const server = useServer()
+  const navigate = useNavigate()
   const [store, setStore] = createStore({
     clickTimer: undefined as number | undefined,
     activeItem: undefined as string | undefined,
     prompt: "",
+    mentions: [] as string[],
+    attachments: [] as Attachment[],
+    attachmentError: undefined as string | undefined,
+    dropping: false,
+    compacting: false,
     dragging: undefined as "left" | "right" | undefined,
     modelSelectOpen: false,
     fileSelectOpen: false,
+    closing: undefined as string | undefined,
+    discarding: undefined as string | undefined,
+    changeError: undefined as string | undefined,
+    commandError: undefined as string | undefined,
   })
 
-  let inputRef: HTMLInputElement | undefined = undefined
+  let inputRef: HTMLTextAreaElement | undefined = undefined
+  let fileInputRef: HTMLInputElement | undefined = undefined
 
   const MOD = typeof navigator === "object" && /(Mac|iPod|iPhone|iPad)/.test(navigator.platform) ? "Meta" : "Control"
 
@@ -47,6 +92,8 @@ export default function Page() {
   })
 
   const handleKeyDown = (e: KeyboardEvent) => {
+    // already handled, e.g. Escape closing the prompt's completion popup
+    if (e.defaultPrevented) return
     if (e.getModifierState(MOD) && e.shiftKey && e.key.toLowerCase() === "p") {
       e.preventDefault()
       // TODO: command palette
@@ -61,7 +108,8 @@ export default function Page() {
     const inputFocused = document.activeElement === inputRef
     if (inputFocused) {
       if (e.key === "Escape") {
-        inputRef?.blur()
+        if (busy()) abort()
+        else inputRef?.blur()
       }
       return
     }
@@ -70,6 +118,12 @@ export default function Page() {
       return
     }
 
+    // typing into the code editor or any other field stays there
+    const ae = document.activeElement as HTMLElement | null
+    if (ae && (ae.tagName === "INPUT" || ae.tagName === "TEXTAREA" || ae.isContentEditable)) {
+      return
+    }
+
     if (local.file.active()) {
       if (e.getModifierState(MOD)) {
         if (e.key.toLowerCase() === "a") {
@@ -94,6 +148,23 @@ export default function Page() {
     local.file.setChangeIndex(active.path, next)
   }
 
+  // keeping or discarding the agent's changes goes straight to git, failures are shown above the diff
+  const changeAction = (action: () => Promise<unknown>) => {
+    setStore("changeError", undefined)
+    action().catch((e) => setStore("changeError", e instanceof Error ? e.message : String(e)))
+  }
+
+  const selectedChange = (path: string) => local.file.changeIndex(path) ?? 0
+  const keepChange = (path: string) => changeAction(() => local.file.keepChange(path, selectedChange(path)))
+  const discardChange = (path: string) => changeAction(() => local.file.discardChange(path, selectedChange(path)))
+
+  const discardFile = (path: string) =>
+    changeAction(async () => {
+      const added = local.file.node(path)?.status?.status === "added"
+      await local.file.discardFile(path)
+      if (added) local.file.close(path)
+    })
+
   const resetClickTimer = () => {
     if (!store.clickTimer) return
     clearTimeout(store.clickTimer)
@@ -122,6 +193,10 @@ export default function Page() {
   }
 
   const handleTabClose = (file: LocalFile) => {
+    if (local.file.dirty(file.path)) {
+      setStore("closing", file.path)
+      return
+    }
     local.file.close(file.path)
   }
 
@@ -189,46 +264,221 @@ export default function Page() {
     document.addEventListener("mouseup", handleMouseUp)
   }
 
+  // the session the prompt goes to, a new one is created when the pane is closed
+  const target = () => (local.layout.rightPane() ? local.session.active() : undefined)
+  const busy = () => {
+    const session = target()
+    return !!session && sync.session.working(session.id)
+  }
+  // set once the active session's last turn used most of the model's context window
+  const overflow = createMemo(() => {
+    const session = target()
+    if (!session) return undefined
+    const context = sync.session.context(session.id)
+    if (!context?.limit || context.tokens / context.limit < CONTEXT_WARNING) return undefined
+    return { tokens: context.tokens, limit: context.limit, fill: context.tokens / context.limit }
+  })
+  const abort = () => {
+    const session = target()
+    if (!session) return
+    sdk.session.abort({ path: { id: session.id } })
+  }
+
+  const commands = () => [
+    ...builtins,
+    ...sync.data.command.map((x) => ({ name: x.name, description: x.description ?? x.template })),
+  ]
+
+  const open = async () => {
+    const session = target() ?? (await sdk.session.create().then((x) => x.data!))
+    local.session.setActive(session!.id)
+    local.layout.openRightPane()
+    return session!
+  }
+
+  const builtin = async (name: string) => {
+    if (name === "new") {
+      const session = await sdk.session.create({ throwOnError: true }).then((x) => x.data)
+      local.session.setActive(session.id)
+      local.layout.openRightPane()
+      return
+    }
+    const session = target()
+    if (!session) return
+    const messages = sync.data.message[session.id] ?? []
+    switch (name) {
+      case "compact": {
+        const model = local.model.current()
+        if (!model) return
+        setStore("compacting", true)
+        await sdk.session
+          .summarize({
+            path: { id: session.id },
+            body: { providerID: model.provider.id, modelID: model.id },
+            throwOnError: true,
+          })
+          .finally(() => setStore("compacting", false))
+        return
+      }
+      case "share": {
+        const result = await sdk.session.share({ path: { id: session.id }, throwOnError: true })
+        if (result.data.share) await navigator.clipboard.writeText(result.data.share.url)
+        return
+      }
+      case "undo": {
+        // the last user message before the current revert point, if any
+        const prompts = messages.filter(
+          (x) => x.role === "user" && (!session.revert || x.id < session.revert.messageID),
+        )
+        const last = prompts[prompts.length - 1]
+        if (!last) return
+        await sdk.session.revert({ path: { id: session.id }, body: { messageID: last.id }, throwOnError: true })
+        local.file.refresh()
+        // put the reverted prompt back so it can be edited and sent again
+        const text = sync.data.part[last.id]?.find((x) => x.type === "text" && !x.synthetic)
+        if (text?.type === "text") setStore("prompt", text.text)
+        return
+      }
+      case "redo": {
+        if (!session.revert) return
+        const next = messages.find((x) => x.role === "user" && x.id > session.revert!.messageID)
+        if (next)
+          await sdk.session.revert({ path: { id: session.id }, body: { messageID: next.id }, throwOnError: true })
+        else await sdk.session.unrevert({ path: { id: session.id }, throwOnError: true })
+        local.file.refresh()
+        return
+      }
+    }
+  }
+
+  const runBuiltin = (name: string) => {
+    setStore("commandError", undefined)
+    return builtin(name).catch((e) => setStore("commandError", e instanceof Error ? e.message : JSON.stringify(e)))
+  }
+
+  // images and pdfs only go to models that accept attachments, text is inlined and always works
+  const unsupported = () => !local.model.current()?.attachment && store.attachments.some((x) => isMedia(x.mime))
+  const attachmentError = () =>
+    store.attachmentError ??
+    (unsupported() ? `${local.model.current()?.name} doesn't accept images or PDFs, pick another model` : undefined)
+
+  const attach = async (files: File[]) => {
+    setStore("attachmentError", undefined)
+    for (const file of files) {
+      if (isMedia(attachmentMime(file)) && !local.model.current()?.attachment) {
+        setStore("attachmentError", `${local.model.current()?.name ?? "This model"} doesn't accept images or PDFs`)
+        continue
+      }
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        setStore("attachmentError", `${file.name} is larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB`)
+        continue
+      }
+      const attachment = await readAttachment(file).catch((e) => {
+        setStore("attachmentError", e instanceof Error ? e.message : String(e))
+      })
+      if (attachment) setStore("attachments", (attachments) => [...attachments, attachment])
+    }
+  }
+
+  // the desktop app has a native dialog, the browser the hidden file input
+  const pickFiles = async () => {
+    if (!isTauri()) return fileInputRef?.click()
+    const picked = await pickAttachments().catch((e) => {
+      setStore("attachmentError", e instanceof Error ? e.message : String(e))
+    })
+    if (!picked) return
+    await attach(picked.files)
+    if (!picked.tooLarge.length) return
+    const names = picked.tooLarge.join(", ")
+    const verb = picked.tooLarge.length === 1 ? "is" : "are"
+    setStore("attachmentError", `${names} ${verb} larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB`)
+  }
+
+  const detach = (id: string) => {
+    setStore("attachmentError", undefined)
+    setStore("attachments", (attachments) => attachments.filter((x) => x.id !== id))
+  }
+
   const handleSubmit = async (e: SubmitEvent) => {
     e.preventDefault()
+    const agent = local.agent.current()
+    const model = local.model.current()
+    if (!agent || !model) return
+    if (unsupported()) return
     const prompt = store.prompt
+    const attachments = store.attachments
+    const mentioned = mentions(prompt, store.mentions)
+    local.prompt.push(prompt)
     setStore("prompt", "")
+    setStore("mentions", [])
+    setStore("attachments", [])
     inputRef?.blur()
 
-    const session =
-      (local.layout.rightPane() ? local.session.active() : undefined) ??
-      (await sdk.session.create().then((x) => x.data!))
-    local.session.setActive(session!.id)
-    local.layout.openRightPane()
+    const [, name, args] = prompt.match(/^\/(\S+)\s*([\s\S]*)$/) ?? []
+    if (name && builtins.some((x) => x.name === name)) return runBuiltin(name)
+    const command = name ? sync.data.command.find((x) => x.name === name) : undefined
+    if (command) {
+      const session = await open()
+      await sdk.session.command({
+        path: { id: session.id },
+        body: {
+          command: command.name,
+          arguments: args,
+          // the command's own agent and model take precedence
+          agent: command.agent ? undefined : agent.name,
+          model: command.model ? undefined : `${model.provider.id}/${model.id}`,
+        },
+      })
+      return
+    }
+
+    const session = await open()
 
     const response = await sdk.session.prompt({
-      path: { id: session!.id },
+      path: { id: session.id },
       body: {
-        agent: local.agent.current()!.name,
-        model: { modelID: local.model.current()!.id, providerID: local.model.current()!.provider.id },
+        agent: agent.name,
+        model: { modelID: model.id, providerID: model.provider.id },
         parts: [
           {
             type: "text",
             text: prompt,
           },
+          ...mentioned.map((mention) => {
+            const absolute = `${sync.data.path.directory}/${mention.path}`
+            return {
+              type: "file" as const,
+              mime: "text/plain",
+              url: `file://${absolute}`,
+              filename: getFilename(mention.path),
+              source: {
+                type: "file" as const,
+                text: {
+                  value: prompt.slice(mention.start, mention.end),
+                  start: mention.start,
+                  end: mention.end,
+                },
+                path: absolute,
+              },
+            }
+          }),
+          ...attachments.map((attachment) => ({
+            type: "file" as const,
+            mime: attachment.mime,
+            url: attachment.url,
+            filename: attachment.filename,
+          })),
+          // attached files aren't part of the text, so they have no source offsets
           ...local.file
             .opened()
             .filter((f) => f.selection || local.file.active()?.path === f.path)
+            .filter((f) => f.selection || !mentioned.some((x) => x.path === f.path))
             .flatMap((f) => [
               {
                 type: "file" as const,
                 mime: "text/plain",
                 url: `file://${f.absolute}${f.selection ? `?start=${f.selection.startLine}&end=${f.selection.endLine}` : ""}`,
                 filename: f.name,
-                source: {
-                  type: "file" as const,
-                  text: {
-                    value: "@" + f.name,
-                    start: 0, // f.start,
-                    end: 0, // f.end,
-                  },
-                  path: f.absolute,
-                },
               },
             ]),
         ],
@@ -244,7 +494,8 @@ export default function Page() {
         class="fixed top-0 left-0 h-full border-r border-border-subtle/30 flex flex-col overflow-hidden bg-background z-10"
         style={`width: ${local.layout.leftWidth()}px`}
       >
-        <Tabs class="relative flex flex-col h-full" defaultValue="files">
+        <ProjectSelect />
+        <Tabs class="relative flex flex-col grow min-h-0" defaultValue="files">
           <div class="sticky top-0 shrink-0 flex">
             <Tabs.List class="grow w-full after:hidden">
               <Tabs.Trigger value="files" class="flex-1 justify-center text-xs">
@@ -253,35 +504,19 @@ export default function Page() {
               <Tabs.Trigger value="changes" class="flex-1 justify-center text-xs">
                 Changes
               </Tabs.Trigger>
+              <Tabs.Trigger value="search" class="flex-1 justify-center text-xs">
+                Search
+              </Tabs.Trigger>
             </Tabs.List>
           </div>
           <Tabs.Content value="files" class="grow min-h-0 py-2 bg-background">
             <FileTree path="" onFileClick={handleFileClick} />
           </Tabs.Content>
           <Tabs.Content value="changes" class="grow min-h-0 py-2 bg-background">
-            <Show
-              when={local.file.changes().length}
-              fallback={<div class="px-2 text-xs text-text-muted">No changes</div>}
-            >
-              <ul class="">
-                <For each={local.file.changes()}>
-                  {(path) => (
-                    <li>
-                      <button
-                        onClick={() => local.file.open(path, { view: "diff-unified", pinned: true })}
-                        class="w-full flex items-center px-2 py-0.5 gap-x-2 text-text-muted grow min-w-0 cursor-pointer hover:bg-background-element"
-                      >
-                        <FileIcon node={{ path, type: "file" }} class="shrink-0 size-3" />
-                        <span class="text-xs text-text whitespace-nowrap">{getFilename(path)}</span>
-                        <span class="text-xs text-text-muted/60 whitespace-nowrap truncate min-w-0">
-                          {getDirectory(path)}
-                        </span>
-                      </button>
-                    </li>
-                  )}
-                </For>
-              </ul>
-            </Show>
+            <GitPanel />
+          </Tabs.Content>
+          <Tabs.Content value="search" class="grow min-h-0 py-2 bg-background">
+            <SearchPanel />
           </Tabs.Content>
         </Tabs>
       </div>
@@ -305,23 +540,32 @@ export default function Page() {
           <div class="relative flex-1 min-h-0 overflow-y-auto overflow-x-hidden">
             <Show when={local.session.active()} fallback={<SessionList />}>
               {(activeSession) => (
-                <div class="relative">
-                  <div class="sticky top-0 bg-background z-50 px-2 h-8 border-b border-border-subtle/30">
+                <div class="h-full flex flex-col">
+                  <div class="shrink-0 bg-background z-50 px-2 h-8 border-b border-border-subtle/30">
                     <div class="h-full flex items-center gap-2">
-                      <IconButton
-                        size="xs"
-                        variant="ghost"
-                        onClick={() => local.session.clearActive()}
-                        class="text-text-muted hover:text-text"
-                      >
-                        <Icon name="arrow-left" size={14} />
-                      </IconButton>
+                      <Tooltip value={activeSession().parentID ? "Back to parent session" : "All sessions"}>
+                        <IconButton
+                          size="xs"
+                          variant="ghost"
+                          onClick={() => {
+                            // subagent sessions go back to the session that started them
+                            const parentID = activeSession().parentID
+                            if (parentID) local.session.setActive(parentID)
+                            else local.session.clearActive()
+                          }}
+                          class="text-text-muted hover:text-text"
+                        >
+                          <Icon name="arrow-left" size={14} />
+                        </IconButton>
+                      </Tooltip>
                       <h2 class="text-sm font-medium text-text truncate">
                         {activeSession().title || "Untitled Session"}
                       </h2>
+                      <SessionActions session={activeSession()} />
                     </div>
                   </div>
-                  <SessionTimeline session={activeSession().id} />
+                  <SessionTimeline session={activeSession().id} class="grow" />
+                  <SessionUsage session={activeSession().id} />
                 </div>
               )}
             </Show>
@@ -371,7 +615,32 @@ export default function Page() {
                 </SortableProvider>
               </Tabs.List>
               <div class="shrink-0 h-full flex items-center gap-1 px-2 border-b border-border-subtle/40">
-                <Show when={local.file.active() && local.file.active()!.content?.diff}>
+                <Show
+                  when={
+                    server.managed() && local.file.active()?.loaded && local.file.active()?.status?.status !== "deleted"
+                  }
+                >
+                  {(() => {
+                    const f = local.file.active()!
+                    return (
+                      <Tooltip value={f.editing ? "Stop editing" : "Edit"} placement="bottom">
+                        <IconButton
+                          size="xs"
+                          variant="ghost"
+                          classList={{
+                            "text-text": !!f.editing,
+                            "text-text-muted/70": !f.editing,
+                            "bg-background-element": !!f.editing,
+                          }}
+                          onClick={() => local.file.edit(f.path, !f.editing)}
+                        >
+                          <Icon name="pencil" size={14} />
+                        </IconButton>
+                      </Tooltip>
+                    )
+                  })()}
+                </Show>
+                <Show when={local.file.active() && !local.file.active()!.editing && local.file.active()!.content?.diff}>
                   {(() => {
                     const f = local.file.active()!
                     const view = local.file.view(f.path)
@@ -389,8 +658,41 @@ export default function Page() {
                                 <Icon name="arrow-down" size={14} />
                               </IconButton>
                             </Tooltip>
+                            <Show when={server.managed() && f.status?.status === "modified"}>
+                              <Tooltip value="Keep change" placement="bottom">
+                                <IconButton
+                                  size="xs"
+                                  variant="ghost"
+                                  disabled={local.file.kept(f.path).includes(selectedChange(f.path))}
+                                  onClick={() => keepChange(f.path)}
+                                >
+                                  <Icon name="checkmark" size={14} />
+                                </IconButton>
+                              </Tooltip>
+                              <Tooltip value="Discard change" placement="bottom">
+                                <IconButton
+                                  size="xs"
+                                  variant="ghost"
+                                  onClick={() => discardChange(f.path)}
+                                >
+                                  <Icon name="undo" size={14} />
+                                </IconButton>
+                              </Tooltip>
+                            </Show>
                           </div>
                         </Show>
+                        <Show when={server.managed()}>
+                          <Tooltip value="Discard all changes in file" placement="bottom">
+                            <IconButton
+                              size="xs"
+                              variant="ghost"
+                              class="mr-1"
+                              onClick={() => setStore("discarding", f.path)}
+                            >
+                              <Icon name="trash" size={14} />
+                            </IconButton>
+                          </Tooltip>
+                        </Show>
                         <Tooltip value="Raw" placement="bottom">
                           <IconButton
                             size="xs"
@@ -437,22 +739,75 @@ export default function Page() {
                     )
                   })()}
                 </Show>
+                <PermissionBadge />
                 <Tooltip value={local.layout.rightPane() ? "Close pane" : "Open pane"} placement="bottom">
                   <IconButton size="xs" variant="ghost" onClick={() => local.layout.toggleRightPane()}>
                     <Icon name={local.layout.rightPane() ? "close-pane" : "open-pane"} size={14} />
                   </IconButton>
                 </Tooltip>
+                <Show when={server.profiles().length > 1}>
+                  <Select
+                    options={server.profiles()}
+                    current={server.current()}
+                    value={(x) => x.id}
+                    label={(x) => x.name}
+                    onSelect={(x) => x && server.select(x.id)}
+                    variant="ghost"
+                    class="text-text-muted"
+                  />
+                </Show>
+                <ConnectionStatus />
+                <Tooltip value="Usage" placement="bottom">
+                  <IconButton size="xs" variant="ghost" onClick={() => navigate("/usage")}>
+                    <Icon name="chart" size={14} />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip value="Settings" placement="bottom">
+                  <IconButton size="xs" variant="ghost" onClick={() => navigate("/settings")}>
+                    <Icon name="settings" size={14} />
+                  </IconButton>
+                </Tooltip>
               </div>
             </div>
+            <Show when={store.changeError}>
+              <div
+                class="shrink-0 mx-2 mt-1 px-2 py-1.5 flex items-center gap-2 rounded-md bg-error/10 text-xs text-error"
+              >
+                <Icon name="warning" size={14} class="shrink-0" />
+                <span class="grow">{store.changeError}</span>
+                <IconButton size="xs" variant="ghost" onClick={() => setStore("changeError", undefined)}>
+                  <Icon name="close" size={14} />
+                </IconButton>
+              </div>
+            </Show>
             <For each={local.file.opened()}>
               {(file) => (
-                <Tabs.Content value={file.path} class="grow h-full pt-1 select-text">
-                  {(() => {
-                    const view = local.file.view(file.path)
-                    const showRaw = view === "raw" || !file.content?.diff
-                    const code = showRaw ? (file.content?.content ?? "") : (file.content?.diff ?? "")
-                    return <Code path={file.path} code={code} />
-                  })()}
+                <Tabs.Content value={file.path} class="grow h-full pt-1 select-text flex flex-col">
+                  <Show when={file.status?.status === "deleted" && server.managed() && !file.error}>
+                    <div class="shrink-0 mx-2 mb-1 px-2 py-1 flex items-center gap-2 text-xs text-text-muted">
+                      <Icon name="lock" size={12} class="shrink-0" />
+                      This file was deleted, showing its last committed version
+                    </div>
+                  </Show>
+                  <Show when={file.error}>
+                    <div
+                      class="shrink-0 mx-2 mb-1 px-2 py-1.5 flex items-center gap-2 rounded-md bg-error/10
+                             text-xs text-error"
+                    >
+                      <Icon name="warning" size={14} class="shrink-0" />
+                      <span class="grow break-words">Couldn't load the last version of this file: {file.error}</span>
+                    </div>
+                  </Show>
+                  <div class="grow min-h-0">
+                    <Show when={!file.editing} fallback={<CodeEditor path={file.path} />}>
+                      {(() => {
+                        const view = local.file.view(file.path)
+                        const showRaw = view === "raw" || !file.content?.diff
+                        const code = showRaw ? (file.content?.content ?? "") : (file.content?.diff ?? "")
+                        return <Code path={file.path} code={code} />
+                      })()}
+                    </Show>
+                  </div>
                 </Tabs.Content>
               )}
             </For>
@@ -476,6 +831,23 @@ export default function Page() {
         </DragDropProvider>
         <form
           onSubmit={handleSubmit}
+          onDragOver={(e) => {
+            if (!e.dataTransfer?.types.includes("Files")) return
+            e.preventDefault()
+            setStore("dropping", true)
+          }}
+          onDragLeave={() => setStore("dropping", false)}
+          onDrop={(e) => {
+            e.preventDefault()
+            setStore("dropping", false)
+            attach([...(e.dataTransfer?.files ?? [])])
+          }}
+          onPaste={(e) => {
+            const files = [...(e.clipboardData?.files ?? [])]
+            if (!files.length) return
+            e.preventDefault()
+            attach(files)
+          }}
           class="peer/editor absolute inset-x-4 z-50 flex items-center justify-center"
           classList={{
             "bottom-8": !!local.file.active(),
@@ -489,6 +861,7 @@ export default function Page() {
                    ring-1 ring-border-active/50 border border-transparent
                    shadow-[0_0_33px_rgba(0,0,0,0.8)]
                    focus-within:ring-2 focus-within:ring-primary/40 focus-within:border-primary"
+            classList={{ "ring-2! ring-primary/60! border-dashed! border-primary!": store.dropping }}
           >
             <div class="flex flex-wrap gap-1">
               <Show when={local.file.active()}>
@@ -501,20 +874,57 @@ export default function Page() {
               <For each={local.file.opened().filter((x) => x.selection)}>
                 {(file) => <FileTag file={file} onClose={() => local.file.select(file.path, undefined)} />}
               </For>
+              <For each={store.attachments}>
+                {(attachment) => <AttachmentTag attachment={attachment} onClose={() => detach(attachment.id)} />}
+              </For>
             </div>
-            <input
+            <Show when={attachmentError()}>
+              <div class="px-1 text-xs text-error">{attachmentError()}</div>
+            </Show>
+            <Show when={store.commandError}>
+              <div class="px-1 text-xs text-error">{store.commandError}</div>
+            </Show>
+            <Show when={overflow()}>
+              {(context) => (
+                <div
+                  classList={{
+                    "px-1 flex items-center gap-2 text-xs": true,
+                    "text-warning": context().fill < 0.95,
+                    "text-error": context().fill >= 0.95,
+                  }}
+                >
+                  <Icon name="warning" size={12} class="shrink-0" />
+                  <span class="grow min-w-0">
+                    Context is {Math.round(context().fill * 100)}% full ({formatTokens(context().tokens)} of{" "}
+                    {formatTokens(context().limit)}), older messages may be dropped
+                  </span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    class="shrink-0 pr-2"
+                    disabled={store.compacting || busy()}
+                    onClick={() => runBuiltin("compact")}
+                  >
+                    {store.compacting ? "Compacting..." : "Compact session"}
+                  </Button>
+                </div>
+              )}
+            </Show>
+            <PromptEditor
               ref={(el) => (inputRef = el)}
-              type="text"
               value={store.prompt}
-              onInput={(e) => setStore("prompt", e.currentTarget.value)}
-              placeholder="Placeholder text..."
-              class="w-full p-1 pb-4 text-text font-light placeholder-text-muted/70 text-sm focus:outline-none"
+              onInput={(value) => setStore("prompt", value)}
+              onMention={(path) => setStore("mentions", (mentions) => [...mentions, path])}
+              commands={commands()}
+              onCommand={runBuiltin}
+              placeholder="Ask anything, @ to mention files, / for commands"
             />
             <div class="flex justify-between items-center text-xs text-text-muted">
               <div class="flex gap-2 items-center">
                 <Select
                   options={local.agent.list().map((a) => a.name)}
-                  current={local.agent.current().name}
+                  current={local.agent.current()?.name}
                   onSelect={local.agent.set}
                   class="uppercase"
                 />
@@ -525,12 +935,47 @@ export default function Page() {
                 <span class="text-text-muted/70 whitespace-nowrap">{local.model.current()?.provider.name}</span>
               </div>
               <div class="flex gap-1 items-center">
-                <IconButton class="text-text-muted" size="xs" variant="ghost">
-                  <Icon name="photo" size={16} />
-                </IconButton>
-                <IconButton class="text-background-panel! bg-primary rounded-full!" size="xs" variant="ghost">
-                  <Icon name="arrow-up" size={14} />
-                </IconButton>
+                <input
+                  ref={(el) => (fileInputRef = el)}
+                  type="file"
+                  multiple
+                  class="hidden"
+                  onChange={(e) => {
+                    attach([...(e.currentTarget.files ?? [])])
+                    e.currentTarget.value = ""
+                  }}
+                />
+                <Tooltip value="Attach files" placement="top">
+                  <IconButton
+                    type="button"
+                    class="text-text-muted"
+                    size="xs"
+                    variant="ghost"
+                    onClick={pickFiles}
+                  >
+                    <Icon name="photo" size={16} />
+                  </IconButton>
+                </Tooltip>
+                <Show
+                  when={busy()}
+                  fallback={
+                    <IconButton class="text-background-panel! bg-primary rounded-full!" size="xs" variant="ghost">
+                      <Icon name="arrow-up" size={14} />
+                    </IconButton>
+                  }
+                >
+                  <Tooltip value="Stop" placement="top">
+                    <IconButton
+                      type="button"
+                      class="text-background-panel! bg-primary rounded-full!"
+                      size="xs"
+                      variant="ghost"
+                      onClick={abort}
+                    >
+                      <Icon name="square" size={14} />
+                    </IconButton>
+                  </Tooltip>
+                </Show>
               </div>
             </div>
           </div>
@@ -604,17 +1049,45 @@ export default function Page() {
           onSelect={(x) => (x ? local.file.open(x, { pinned: true }) : undefined)}
         />
       </Show>
+      <Show when={store.closing}>
+        {(path) => (
+          <ConfirmDialog
+            title={`Close ${getFilename(path())}?`}
+            description="Your unsaved changes will be lost."
+            confirm="Discard changes"
+            destructive
+            onConfirm={() => local.file.close(path())}
+            onClose={() => setStore("closing", undefined)}
+          />
+        )}
+      </Show>
+      <Show when={store.discarding}>
+        {(path) => (
+          <ConfirmDialog
+            title={`Discard all changes in ${getFilename(path())}?`}
+            description="The file goes back to how it is in the last commit, staged changes included."
+            confirm="Discard"
+            destructive
+            onConfirm={() => discardFile(path())}
+            onClose={() => setStore("discarding", undefined)}
+          />
+        )}
+      </Show>
     </div>
   )
 }
 
 const TabVisual = (props: { file: LocalFile }) => {
+  const local = useLocal()
   return (
     <div class="flex items-center gap-x-1.5">
       <FileIcon node={props.file} class="" />
       <span classList={{ "text-xs": true, "text-primary": !!props.file.status?.status, italic: !props.file.pinned }}>
         {props.file.name}
       </span>
+      <Show when={local.file.dirty(props.file.path)}>
+        <span class="size-1.5 rounded-full bg-text" title="Unsaved changes" />
+      </Show>
       <span class="text-xs opacity-70">
         <Switch>
           <Match when={props.file.status?.status === "modified"}>
@@ -0,0 +1,300 @@
+import { For, Show, type JSX } from "solid-js"
+import { createStore } from "solid-js/store"
+import { useNavigate } from "@solidjs/router"
+import { useServer } from "@/context"
+import type { ServerCheck, ServerProfile } from "@/context/server"
+import { Button, Icon, IconButton, Logo, Tooltip } from "@/ui"
+import { ServerLog } from "@/components/server-log"
+import { getFilename } from "@/utils"
+
+type Draft = {
+  name: string
+  url: string
+  auth: string
+  agent: string
+  model: string
+  directory: string
+}
+
+const toDraft = (profile: ServerProfile): Draft => ({
+  name: profile.name,
+  url: profile.url,
+  auth: profile.auth ?? "",
+  agent: profile.agent ?? "",
+  model: profile.model ? `${profile.model.providerID}/${profile.model.modelID}` : "",
+  directory: profile.directory ?? "",
+})
+
+const fromDraft = (draft: Draft): Omit<ServerProfile, "id"> => {
+  const [providerID, ...rest] = draft.model.trim().split("/")
+  const modelID = rest.join("/")
+  return {
+    name: draft.name.trim() || draft.directory.trim() || draft.url.trim(),
+    url: draft.url,
+    auth: draft.auth.trim() || undefined,
+    agent: draft.agent.trim() || undefined,
+    model: providerID && modelID ? { providerID, modelID } : undefined,
+    directory: draft.directory.trim() || undefined,
+  }
+}
+
+export default function Settings() {
+  const server = useServer()
+  const navigate = useNavigate()
+  const [store, setStore] = createStore({
+    editing: server.current().id as string | undefined,
+    draft: toDraft(server.current()),
+    checking: false,
+    result: undefined as ServerCheck | undefined,
+  })
+
+  const edit = (profile: ServerProfile | undefined) => {
+    setStore("editing", profile?.id)
+    setStore("draft", profile ? toDraft(profile) : { name: "", url: "", auth: "", agent: "", model: "", directory: "" })
+    setStore("result", undefined)
+  }
+
+  const save = () => {
+    const value = fromDraft(store.draft)
+    if (!value.url.trim() && !value.directory) return undefined
+    if (store.editing) {
+      server.update(store.editing, value)
+      return store.editing
+    }
+    const id = server.add(value)
+    setStore("editing", id)
+    return id
+  }
+
+  const handleTest = async () => {
+    setStore("checking", true)
+    setStore("result", undefined)
+    const result = await server.check(store.draft.url, store.draft.auth)
+    setStore("result", result)
+    setStore("checking", false)
+  }
+
+  const handleBrowse = async () => {
+    const directory = await server.projects.pick()
+    if (!directory) return
+    setStore("draft", "directory", directory)
+    if (!store.draft.name) setStore("draft", "name", getFilename(directory))
+  }
+
+  const handleSubmit = (e: SubmitEvent) => {
+    e.preventDefault()
+    save()
+  }
+
+  const handleConnect = () => {
+    const id = save()
+    if (!id) return
+    server.select(id)
+    navigate("/")
+  }
+
+  const handleRemove = () => {
+    if (!store.editing) return
+    server.remove(store.editing)
+    edit(server.current())
+  }
+
+  const Field = (props: {
+    id: keyof Draft
+    label: string
+    hint?: string
+    placeholder?: string
+    action?: JSX.Element
+  }) => (
+    <div class="flex flex-col gap-1">
+      <label for={`profile-${props.id}`} class="text-xs text-text">
+        {props.label}
+      </label>
+      <Show when={props.hint}>
+        <p class="text-xs text-text-muted/70">{props.hint}</p>
+      </Show>
+      <div class="flex items-center gap-2">
+        <input
+          id={`profile-${props.id}`}
+          type="text"
+          value={store.draft[props.id]}
+          onInput={(e) => {
+            setStore("draft", props.id, e.currentTarget.value)
+            setStore("result", undefined)
+          }}
+          placeholder={props.placeholder}
+          class="w-full px-2 py-1.5 rounded-md bg-background-panel ring-1 ring-border-subtle/60
+                 text-sm text-text placeholder-text-muted/70
+                 focus:outline-none focus:ring-primary/60"
+          spellcheck={false}
+          autocorrect="off"
+          autocomplete="off"
+          autocapitalize="off"
+        />
+        {props.action}
+      </div>
+    </div>
+  )
+
+  const Section = (props: { title: string; children: JSX.Element; action?: JSX.Element }) => (
+    <section class="flex flex-col gap-3">
+      <div class="flex items-center justify-between">
+        <h2 class="text-xs uppercase tracking-wider text-text-muted/60">{props.title}</h2>
+        {props.action}
+      </div>
+      {props.children}
+    </section>
+  )
+
+  return (
+    <div class="h-screen overflow-y-auto">
+      <div class="max-w-xl mx-auto px-4 py-8 flex flex-col gap-6">
+        <div class="flex items-center gap-2">
+          <IconButton size="xs" variant="ghost" onClick={() => navigate("/")} class="text-text-muted hover:text-text">
+            <Icon name="arrow-left" size={14} />
+          </IconButton>
+          <Logo variant="mark" size={20} />
+          <h1 class="text-sm font-medium text-text">Settings</h1>
+        </div>
+        <Section
+          title="Servers"
+          action={
+            <Tooltip value="Add server" placement="left">
+              <IconButton size="xs" variant="ghost" class="text-text-muted" onClick={() => edit(undefined)}>
+                <Icon name="plus" size={14} />
+              </IconButton>
+            </Tooltip>
+          }
+        >
+          <ul class="flex flex-col rounded-md ring-1 ring-border-subtle/40 divide-y divide-border-subtle/40">
+            <For each={server.profiles()}>
+              {(profile) => (
+                <li
+                  classList={{
+                    "flex items-center gap-2 px-2 py-1.5 cursor-pointer hover:bg-background-element": true,
+                    "bg-background-element": store.editing === profile.id,
+                  }}
+                  onClick={() => edit(profile)}
+                >
+                  <span
+                    classList={{
+                      "size-1.5 rounded-full shrink-0": true,
+                      "bg-success": server.current().id === profile.id,
+                      "bg-text-muted/30": server.current().id !== profile.id,
+                    }}
+                  />
+                  <span class="text-xs text-text whitespace-nowrap">{profile.name}</span>
+                  <span class="text-xs text-text-muted/60 truncate min-w-0">{profile.directory ?? profile.url}</span>
+                  <Show when={server.current().id !== profile.id}>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      class="ml-auto pr-2 text-text-muted"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        server.select(profile.id)
+                      }}
+                    >
+                      Use
+                    </Button>
+                  </Show>
+                </li>
+              )}
+            </For>
+          </ul>
+        </Section>
+        <Section title={store.editing ? "Edit server" : "New server"}>
+          <form onSubmit={handleSubmit} class="flex flex-col gap-3">
+            <Field id="name" label="Name" placeholder="Local" />
+            <Field
+              id="url"
+              label="Server URL"
+              hint="Base URL of a running opencode serve instance"
+              placeholder="http://127.0.0.1:4096"
+            />
+            <Field
+              id="auth"
+              label="Auth header"
+              hint="Optional. Sent as the Authorization header, or use Name: value for a custom header"
+              placeholder="Bearer ..."
+            />
+            <Field
+              id="directory"
+              label="Project directory"
+              hint="Optional. Starts opencode serve in this directory on a free port instead of connecting to the URL"
+              placeholder="/path/to/project"
+              action={
+                <Button type="button" size="md" class="pr-3 shrink-0" onClick={handleBrowse}>
+                  Browse...
+                </Button>
+              }
+            />
+            <Field id="agent" label="Default agent" placeholder="build" />
+            <Field id="model" label="Default model" placeholder="provider/model" />
+            <Show when={store.result} keyed>
+              {(result) =>
+                result.ok ? (
+                  <div class="flex items-center gap-1.5 text-xs text-success">
+                    <Icon name="check-circle" size={14} />
+                    <span class="truncate">Connected, serving {result.path.directory}</span>
+                  </div>
+                ) : (
+                  <div class="flex items-center gap-1.5 text-xs text-error">
+                    <Icon name="close-circle" size={14} />
+                    <span class="truncate">Could not connect: {result.error}</span>
+                  </div>
+                )
+              }
+            </Show>
+            <div class="flex items-center gap-2">
+              <Show when={store.editing && server.profiles().length > 1}>
+                <Button type="button" size="md" variant="ghost" class="pr-3 text-error" onClick={handleRemove}>
+                  Delete
+                </Button>
+              </Show>
+              <div class="ml-auto flex items-center gap-2">
+                <Button type="button" size="md" class="pr-3" disabled={store.checking} onClick={handleTest}>
+                  {store.checking ? "Testing..." : "Test connection"}
+                </Button>
+                <Button
+                  type="submit"
+                  size="md"
+                  class="pr-3"
+                  disabled={!store.draft.url.trim() && !store.draft.directory.trim()}
+                >
+                  Save
+                </Button>
+                <Button
+                  type="button"
+                  size="md"
+                  variant="primary"
+                  class="pr-3"
+                  disabled={!store.draft.url.trim() && !store.draft.directory.trim()}
+                  onClick={handleConnect}
+                >
+                  Save &amp; connect
+                </Button>
+              </div>
+            </div>
+          </form>
+        </Section>
+        <Show when={server.current().directory}>
+          <Section
+            title="Local server"
+            action={
+              <span class="text-xs text-text-muted/60">
+                {server.process.status()}
+                <Show when={server.process.info()}>{(info) => ` on port ${info().port}`}</Show>
+              </span>
+            }
+          >
+            <Show when={server.process.error()}>
+              <div class="text-xs text-error">{server.process.error()}</div>
+            </Show>
+            <ServerLog class="h-64" />
+          </Section>
+        </Show>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+import { createMemo, createResource, For, Show } from "solid-js"
+import { useNavigate } from "@solidjs/router"
+import type { AssistantMessage } from "@opencode-ai/sdk"
+import { useSDK, useSync } from "@/context"
+import { Icon, IconButton, Logo, Tooltip } from "@/ui"
+import { addUsage, emptyUsage, formatCost, formatTokens, type Usage } from "@/utils/usage"
+
+type ModelUsage = { modelID: string; messages: number; usage: Usage }
+type ProviderUsage = { providerID: string; name: string; usage: Usage; models: ModelUsage[] }
+
+const cache = (usage: Usage) =>
+  `${formatTokens(usage.reasoning)} reasoning · ${formatTokens(usage.cacheRead)} cache read · ` +
+  `${formatTokens(usage.cacheWrite)} cache write`
+
+export default function UsagePage() {
+  const sdk = useSDK()
+  const sync = useSync()
+  const navigate = useNavigate()
+
+  // sessions that were opened are already synced, the rest are fetched a few at a time
+  const [messages] = createResource(async () => {
+    const result: AssistantMessage[] = []
+    const missing = sync.data.session.filter((session) => !sync.data.message[session.id])
+    for (const session of sync.data.session) {
+      for (const message of sync.data.message[session.id] ?? []) if (message.role === "assistant") result.push(message)
+    }
+    for (let i = 0; i < missing.length; i += 4) {
+      const batch = await Promise.all(
+        missing
+          .slice(i, i + 4)
+          .map((session) => sdk.session.messages({ path: { id: session.id } }).then((x) => x.data ?? [])),
+      )
+      for (const message of batch.flat()) if (message.info.role === "assistant") result.push(message.info)
+    }
+    return result
+  })
+
+  const providers = createMemo(() => {
+    const result: Record<string, ProviderUsage> = {}
+    for (const message of messages() ?? []) {
+      let provider = result[message.providerID]
+      if (!provider) {
+        const name = sync.data.provider.find((p) => p.id === message.providerID)?.name ?? message.providerID
+        provider = { providerID: message.providerID, name, usage: emptyUsage(), models: [] }
+        result[message.providerID] = provider
+      }
+      provider.usage = addUsage(provider.usage, message)
+      let model = provider.models.find((m) => m.modelID === message.modelID)
+      if (!model) {
+        model = { modelID: message.modelID, messages: 0, usage: emptyUsage() }
+        provider.models.push(model)
+      }
+      model.messages++
+      model.usage = addUsage(model.usage, message)
+    }
+    return Object.values(result)
+      .map((provider) => ({ ...provider, models: provider.models.sort((a, b) => b.usage.cost - a.usage.cost) }))
+      .sort((a, b) => b.usage.cost - a.usage.cost)
+  })
+  const name = (providerID: string, modelID: string) =>
+    sync.data.provider.find((p) => p.id === providerID)?.models[modelID]?.name ?? modelID
+  const total = createMemo(() => providers().reduce((sum, provider) => sum + provider.usage.cost, 0))
+
+  return (
+    <div class="h-screen overflow-y-auto">
+      <div class="max-w-xl mx-auto px-4 py-8 flex flex-col gap-6">
+        <div class="flex items-center gap-2">
+          <IconButton size="xs" variant="ghost" onClick={() => navigate("/")} class="text-text-muted hover:text-text">
+            <Icon name="arrow-left" size={14} />
+          </IconButton>
+          <Logo variant="mark" size={20} />
+          <h1 class="text-sm font-medium text-text">Usage</h1>
+          <span class="ml-auto text-sm text-text">{formatCost(total())}</span>
+        </div>
+        <Show
+          when={!messages.loading}
+          fallback={
+            <div class="flex items-center gap-2 text-xs text-text-muted">
+              <Icon name="loading" size={14} class="animate-spin" />
+              Loading {sync.data.session.length} sessions...
+            </div>
+          }
+        >
+          <Show when={providers().length} fallback={<div class="text-xs text-text-muted">No usage yet</div>}>
+            <For each={providers()}>
+              {(provider) => (
+                <section class="flex flex-col gap-3">
+                  <div class="flex items-center justify-between">
+                    <h2 class="text-xs uppercase tracking-wider text-text-muted/60">{provider.name}</h2>
+                    <span class="text-xs text-text-muted">{formatCost(provider.usage.cost)}</span>
+                  </div>
+                  <ul class="flex flex-col rounded-md ring-1 ring-border-subtle/40 divide-y divide-border-subtle/40">
+                    <For each={provider.models}>
+                      {(model) => (
+                        <li class="flex items-center gap-3 px-2 py-1.5 text-xs">
+                          <span class="grow min-w-0 truncate text-text">
+                            {name(provider.providerID, model.modelID)}
+                          </span>
+                          <span class="text-text-muted whitespace-nowrap">{model.messages} messages</span>
+                          <Tooltip value={cache(model.usage)} placement="top">
+                            <span class="text-text-muted whitespace-nowrap">
+                              {formatTokens(model.usage.input)} in · {formatTokens(model.usage.output)} out
+                            </span>
+                          </Tooltip>
+                          <span class="w-16 text-right text-text whitespace-nowrap">
+                            {formatCost(model.usage.cost)}
+                          </span>
+                        </li>
+                      )}
+                    </For>
+                  </ul>
+                </section>
+              )}
+            </For>
+          </Show>
+        </Show>
+      </div>
+    </div>
+  )
+}
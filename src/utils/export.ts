@@ -0,0 +1,144 @@
+import type { Message, Part, Session } from "@opencode-ai/sdk"
+import type { BlockParser } from "@/utils/markdown"
+
+export type SessionExport = { session: Session; messages: { info: Message; parts: Part[] }[] }
+
+export type ExportFormat = "markdown" | "html" | "json"
+
+export const exportExtension: Record<ExportFormat, string> = { markdown: "md", html: "html", json: "json" }
+
+// longer than any run of backticks in the text, so the fence can't be closed early
+function fence(text: string, lang = "") {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((x) => x.length))
+  const ticks = "`".repeat(Math.max(3, longest + 1))
+  return `${ticks}${lang}\n${text}\n${ticks}`
+}
+
+function partToMarkdown(part: Part) {
+  switch (part.type) {
+    case "text":
+      return part.synthetic ? undefined : part.text
+    case "reasoning": {
+      const text = part.text.trim()
+      if (!text) return undefined
+      return ["> _Thinking_", ">", ...text.split("\n").map((line) => `> ${line}`)].join("\n")
+    }
+    case "file":
+      return `_Attached ${part.filename ?? part.url}_`
+    case "tool": {
+      const title = part.state.status === "completed" ? part.state.title : ""
+      const result = [`**Tool: ${part.tool}**${title ? ` ${title}` : ""}`]
+      if ("input" in part.state) result.push(fence(JSON.stringify(part.state.input, null, 2), "json"))
+      if (part.state.status === "completed" && part.state.output) result.push(fence(part.state.output))
+      if (part.state.status === "error") result.push(fence(part.state.error))
+      return result.join("\n\n")
+    }
+    default:
+      return undefined
+  }
+}
+
+function messageToMarkdown(message: { info: Message; parts: Part[] }) {
+  return message.parts
+    .map(partToMarkdown)
+    .filter((x) => x)
+    .join("\n\n")
+}
+
+const heading = (info: Message) => (info.role === "user" ? "User" : `Assistant (${info.modelID})`)
+
+export function toMarkdown(data: SessionExport) {
+  const result = [`# ${data.session.title}`, "", `_${new Date(data.session.time.created).toLocaleString()}_`]
+  for (const message of data.messages) {
+    const body = messageToMarkdown(message)
+    if (body) result.push("", `## ${heading(message.info)}`, "", body)
+  }
+  return result.join("\n") + "\n"
+}
+
+export const toJSON = (data: SessionExport) => JSON.stringify(data, null, 2)
+
+const escape = (text: string) =>
+  text.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!)
+
+// the highlighter's colors are theme variables, so the current values are copied into the page
+function themeVariables() {
+  const names = new Set<string>()
+  const collect = (rules: CSSRuleList) => {
+    for (let i = 0; i < rules.length; i++) {
+      const rule = rules[i]
+      if (rule instanceof CSSStyleRule) {
+        for (let j = 0; j < rule.style.length; j++) {
+          if (rule.style[j].startsWith("--theme-")) names.add(rule.style[j])
+        }
+      }
+      if ("cssRules" in rule) collect(rule.cssRules as CSSRuleList)
+    }
+  }
+  for (let i = 0; i < document.styleSheets.length; i++) collect(document.styleSheets[i].cssRules)
+  const computed = getComputedStyle(document.documentElement)
+  return [...names].map((name) => `${name}: ${computed.getPropertyValue(name)};`).join("\n")
+}
+
+const style = `
+body { margin: 0; background: var(--theme-background); color: var(--theme-text); font: 14px/1.6 system-ui, sans-serif; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+h1 { font-size: 1.4rem; margin: 0; }
+.date { color: var(--theme-text-muted); font-size: 0.8rem; }
+section { margin-top: 1.5rem; }
+section h2 { font-size: 0.75rem; text-transform: uppercase; color: var(--theme-text-muted); margin: 0 0 0.5rem; }
+section.user > div { padding: 0.75rem; border-radius: 6px; background: var(--theme-background-panel); }
+a { color: var(--theme-primary); }
+pre { padding: 0.75rem; border-radius: 6px; overflow-x: auto; background: var(--theme-background-panel); }
+code { font-family: ui-monospace, monospace; font-size: 0.8rem; }
+blockquote {
+  margin: 0; padding-left: 1rem; border-left: 2px solid var(--theme-border); color: var(--theme-text-muted);
+}
+`
+
+// Raw html from the model or a tool is shown as text, in the exported page it would run as soon as it's opened. The
+// renderer's own extensions run afterwards, so highlighted code stays html.
+async function render(parser: BlockParser, markdown: string) {
+  const tokens = parser.lexer(markdown)
+  parser.walkTokens(tokens, (token) => {
+    if (token.type === "html") Object.assign(token, { type: "text", text: token.raw, escaped: false })
+  })
+  const walk = parser.defaults.walkTokens
+  if (walk) await Promise.all(parser.walkTokens(tokens, walk))
+  return parser.parser(tokens)
+}
+
+// self-contained page, markdown goes through the same renderer as the timeline so code stays highlighted
+export async function toHTML(data: SessionExport, parser: BlockParser) {
+  const sections = []
+  for (const message of data.messages) {
+    const body = messageToMarkdown(message)
+    if (!body) continue
+    sections.push(
+      `<section class="${message.info.role}"><h2>${escape(heading(message.info))}</h2>` +
+        `<div>${await render(parser, body)}</div></section>`,
+    )
+  }
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escape(data.session.title)}</title>
+<style>
+:root {
+${themeVariables()}
+}
+${style}
+</style>
+</head>
+<body>
+<main>
+<h1>${escape(data.session.title)}</h1>
+<div class="date">${escape(new Date(data.session.time.created).toLocaleString())}</div>
+${sections.join("\n")}
+</main>
+</body>
+</html>
+`
+}
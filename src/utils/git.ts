@@ -0,0 +1,139 @@
+import { invoke, isTauri } from "@tauri-apps/api/core"
+import type { FileContent } from "@opencode-ai/sdk"
+
+type Patch = NonNullable<FileContent["patch"]>
+export type Hunk = Patch["hunks"][number]
+
+export type GitFile = {
+  path: string
+  // porcelain status letters, "." when that side has no change and "?" for untracked files
+  staged: string
+  unstaged: string
+}
+
+export type GitStatus = {
+  // undefined on a detached HEAD
+  branch?: string
+  upstream?: string
+  ahead: number
+  behind: number
+  files: GitFile[]
+}
+
+// a run of added and removed lines, numbered the way the diff views number `data-chgrp`
+export type ChangeGroup = {
+  hunk: number
+  // indexes into the hunk's lines
+  lines: number[]
+  // the changed lines themselves, stays the same while other parts of the file change
+  key: string
+}
+
+export function changeGroups(patch: Pick<Patch, "hunks"> | undefined): ChangeGroup[] {
+  const result: ChangeGroup[] = []
+  patch?.hunks.forEach((hunk, index) => {
+    let current: ChangeGroup | undefined
+    hunk.lines.forEach((line, i) => {
+      // "\ No newline at end of file" belongs to the line before it
+      if (line[0] === "\\") return
+      if (line[0] !== "+" && line[0] !== "-") {
+        current = undefined
+        return
+      }
+      if (!current) {
+        current = { hunk: index, lines: [], key: "" }
+        result.push(current)
+      }
+      current.lines.push(i)
+    })
+  })
+  for (const group of result) {
+    const lines = patch!.hunks[group.hunk].lines
+    group.key = group.lines.map((i) => lines[i]).join("\n")
+  }
+  return result
+}
+
+// A patch with a single change group, the file's other changes turned into context the way they are on `side`:
+// "old" for a patch applied on top of what it was diffed from, "new" for one reversed out of what it was diffed to.
+export function groupPatch(path: string, patch: Pick<Patch, "hunks">, group: ChangeGroup, side: "old" | "new") {
+  const hunk = patch.hunks[group.hunk]
+  const selected = new Set(group.lines)
+  const lines: string[] = []
+  let dropped = false
+  hunk.lines.forEach((line, i) => {
+    if (line[0] === "\\") {
+      if (!dropped) lines.push(line)
+      return
+    }
+    dropped = false
+    if (line[0] === " " || selected.has(i)) {
+      lines.push(line)
+      return
+    }
+    if (line[0] === (side === "old" ? "-" : "+")) lines.push(" " + line.slice(1))
+    else dropped = true
+  })
+  const oldLines = lines.filter((l) => l[0] === " " || l[0] === "-").length
+  const newLines = lines.filter((l) => l[0] === " " || l[0] === "+").length
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -${hunk.oldStart},${oldLines} +${hunk.newStart},${newLines} @@`,
+    ...lines,
+    "",
+  ].join("\n")
+}
+
+// the hunks of `git diff` output for a single file
+export function parseHunks(diff: string): Hunk[] {
+  const result: Hunk[] = []
+  let current: Hunk | undefined
+  for (const line of diff.split("\n")) {
+    const m = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/)
+    if (m) {
+      current = {
+        oldStart: Number(m[1]),
+        oldLines: m[2] === undefined ? 1 : Number(m[2]),
+        newStart: Number(m[3]),
+        newLines: m[4] === undefined ? 1 : Number(m[4]),
+        lines: [],
+      }
+      result.push(current)
+      continue
+    }
+    if (current && /^[ +\-\\]/.test(line)) current.lines.push(line)
+  }
+  return result
+}
+
+export function hunkPatch(path: string, hunk: Hunk) {
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines,
+    "",
+  ].join("\n")
+}
+
+const run = <T>(command: string, args: Record<string, unknown>) => {
+  if (!isTauri()) return Promise.reject(new Error("Git actions require the desktop app"))
+  return invoke<T>(command, args)
+}
+
+export const git = {
+  apply: (directory: string, patch: string, options?: { reverse?: boolean; cached?: boolean }) =>
+    run<void>("git_apply", { directory, patch, reverse: !!options?.reverse, cached: !!options?.cached }),
+  discard: (directory: string, path: string) => run<void>("git_discard", { directory, path }),
+  status: (directory: string) => run<GitStatus>("git_status", { directory }),
+  diff: (directory: string, path: string, cached: boolean) => run<string>("git_diff", { directory, path, cached }),
+  show: (directory: string, path: string) => run<string>("git_show", { directory, path }),
+  stage: (directory: string, paths: string[]) => run<void>("git_stage", { directory, paths }),
+  unstage: (directory: string, paths: string[]) => run<void>("git_unstage", { directory, paths }),
+  commit: (directory: string, message: string) => run<void>("git_commit", { directory, message }),
+  branches: (directory: string) => run<string[]>("git_branches", { directory }),
+  switch: (directory: string, branch: string) => run<void>("git_switch", { directory, branch }),
+}
@@ -0,0 +1,54 @@
+import type { MarkedOptions, Token, Tokens, TokensList } from "marked"
+
+// the parts of a Marked instance the block renderer needs, so it also runs outside the app (see bench/)
+export type BlockParser = {
+  lexer(src: string): TokensList
+  parser(tokens: Token[]): string
+  walkTokens(tokens: Token[], callback: NonNullable<MarkedOptions["walkTokens"]>): unknown[]
+  defaults: MarkedOptions
+}
+
+// a top level block, the key is what its html is cached under
+export type KeyedBlock = { token: Token; key: string }
+
+const CACHE_SIZE = 1000
+const cache = new Map<string, string>()
+
+function remember(key: string, html: string) {
+  cache.set(key, html)
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!)
+  return html
+}
+
+const escape = (text: string) => text.replace(/[&<>]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;" })[c]!)
+
+// a fence the model is still writing, highlighting it would be thrown away on the next delta
+export function unclosed(token: Token) {
+  if (token.type !== "code" || (token as Tokens.Code).codeBlockStyle === "indented") return false
+  const fence = token.raw.match(/^ {0,3}(`{3,}|~{3,})/)?.[1]
+  if (!fence) return false
+  const lines = token.raw.trimEnd().split("\n")
+  return lines.length < 2 || !lines[lines.length - 1].trim().startsWith(fence)
+}
+
+// Top level blocks of the whole text, lexed once so reference links resolve against every definition in it. Lexing
+// is cheap compared to rendering and highlighting.
+export function blocks(parser: BlockParser, text: string): KeyedBlock[] {
+  const tokens = parser.lexer(text)
+  // a definition changes how the blocks using it render, so the definitions are part of every key
+  const definitions = JSON.stringify(tokens.links)
+  return tokens.filter((x) => x.type !== "space").map((token) => ({ token, key: definitions + token.raw }))
+}
+
+// only a block that changed since the last delta is rendered again, usually just the trailing one
+export function renderBlock(parser: BlockParser, block: KeyedBlock): string | Promise<string> {
+  const cached = cache.get(block.key)
+  if (cached !== undefined) return cached
+  const token = block.token
+  if (unclosed(token)) return `<pre class="shiki"><code>${escape((token as Tokens.Code).text)}</code></pre>`
+  // extensions like the highlighter rewrite the tokens before they render, asynchronously
+  const walk = parser.defaults.walkTokens
+  const pending = walk ? parser.walkTokens([token], walk).filter((x) => x instanceof Promise) : []
+  if (!pending.length) return remember(block.key, parser.parser([token]))
+  return Promise.all(pending).then(() => remember(block.key, parser.parser([token])))
+}
@@ -0,0 +1,40 @@
+// ripgrep reports match offsets in bytes, the previews need them in characters
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+export const charOffset = (text: string, bytes: number) => decoder.decode(encoder.encode(text).slice(0, bytes)).length
+
+// the server only takes a pattern, plain text is escaped and case is folded with ripgrep's inline flag
+export function searchPattern(query: string, options: { regex: boolean; caseSensitive: boolean }) {
+  const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  return options.caseSensitive ? source : `(?i)${source}`
+}
+
+function globToRegExp(glob: string) {
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]
+    if (c === "*" && glob[i + 1] === "*") {
+      i++
+      if (glob[i + 1] === "/") {
+        i++
+        source += "(?:.*/)?"
+      } else source += ".*"
+    } else if (c === "*") source += "[^/]*"
+    else if (c === "?") source += "[^/]"
+    else source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+  }
+  // like .gitignore, a pattern without a slash matches at any depth and a directory matches everything in it
+  const anchored = glob.includes("/") ? `^${source}` : `(?:^|/)${source}`
+  return new RegExp(`${anchored}(?:/.*)?$`)
+}
+
+// a comma separated list of globs, undefined when the list is empty
+export function globMatcher(input: string) {
+  const patterns = input
+    .split(",")
+    .map((glob) => glob.trim().replace(/^\.?\//, "").replace(/\/$/, ""))
+    .filter(Boolean)
+    .map(globToRegExp)
+  if (!patterns.length) return undefined
+  return (path: string) => patterns.some((pattern) => pattern.test(path))
+}
@@ -0,0 +1,43 @@
+import type { AssistantMessage, Message } from "@opencode-ai/sdk"
+
+export type Usage = {
+  input: number
+  output: number
+  reasoning: number
+  cacheRead: number
+  cacheWrite: number
+  cost: number
+}
+
+export const emptyUsage = (): Usage => ({ input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, cost: 0 })
+
+export function addUsage(usage: Usage, message: AssistantMessage): Usage {
+  return {
+    input: usage.input + message.tokens.input,
+    output: usage.output + message.tokens.output,
+    reasoning: usage.reasoning + message.tokens.reasoning,
+    cacheRead: usage.cacheRead + message.tokens.cache.read,
+    cacheWrite: usage.cacheWrite + message.tokens.cache.write,
+    cost: usage.cost + message.cost,
+  }
+}
+
+export const sumUsage = (messages: Message[]) =>
+  messages.reduce((usage, message) => (message.role === "assistant" ? addUsage(usage, message) : usage), emptyUsage())
+
+// everything the model saw and produced in one turn, which is what has to fit in its context window
+export const contextTokens = (message: AssistantMessage) =>
+  message.tokens.input +
+  message.tokens.output +
+  message.tokens.reasoning +
+  message.tokens.cache.read +
+  message.tokens.cache.write
+
+export function formatTokens(count: number) {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`
+  return String(count)
+}
+
+// small amounts keep enough digits to tell one cheap message from another
+export const formatCost = (cost: number) => `$${cost > 0 && cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`